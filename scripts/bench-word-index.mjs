@@ -0,0 +1,101 @@
+/**
+ * Word hit-testing benchmark
+ * Compares the grid spatial index (src/lib/wordSpatialIndex.ts) with a linear
+ * scan over synthetic texts of growing length. Index lookups should cost about
+ * the same for every text size, linear scans grow with the word count.
+ * Loads the TypeScript modules through Vite, so no extra dependencies.
+ *
+ * Usage: npm run bench:word-index -- [--lookups 20000] [--max-words 50000]
+ */
+
+import { createServer } from "vite";
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? Number(args[index + 1]) : fallback;
+};
+
+const LOOKUPS = option("lookups", 20000);
+const MAX_WORDS = option("max-words", 50000);
+const SIZES = [1000, 5000, 10000, 20000, 50000].filter((size) => size <= MAX_WORDS);
+
+// Layout similar to the reading text: ~12 words on a 900 px line, 30 px line height
+const LINE_WIDTH = 900;
+const LINE_HEIGHT = 30;
+const WORD_HEIGHT = 24;
+
+function layoutWords(count) {
+  const words = [];
+  let x = 0;
+  let line = 0;
+  for (let index = 0; index < count; index++) {
+    const width = 30 + ((index * 37) % 70);
+    if (x + width > LINE_WIDTH) {
+      x = 0;
+      line++;
+    }
+    words.push({ word: `w${index}`, x, y: line * LINE_HEIGHT, width, height: WORD_HEIGHT, index });
+    x += width + 8;
+  }
+  return { words, height: (line + 1) * LINE_HEIGHT };
+}
+
+// Deterministic gaze points spread over the text
+function gazePoints(count, height) {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  return Array.from({ length: count }, () => ({ x: random() * LINE_WIDTH, y: random() * height }));
+}
+
+function time(fn) {
+  const start = performance.now();
+  const result = fn();
+  return { ms: performance.now() - start, result };
+}
+
+const server = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: "custom",
+  logLevel: "error",
+});
+
+try {
+  const { WordSpatialIndex } = await server.ssrLoadModule("/src/lib/wordSpatialIndex.ts");
+  const { DEFAULT_WORD_MAPPING_OPTIONS, mapPointToWords } = await server.ssrLoadModule(
+    "/src/lib/wordMapping.ts"
+  );
+  const { padding, radius } = DEFAULT_WORD_MAPPING_OPTIONS;
+
+  console.log(`Nearest-word mapping, ${LOOKUPS} lookups per text size\n`);
+  console.log("words    build ms   index µs/lookup   linear µs/lookup   mismatches");
+
+  for (const size of SIZES) {
+    const { words, height } = layoutWords(size);
+    const points = gazePoints(LOOKUPS, height);
+
+    const { ms: buildMs, result: index } = time(() => new WordSpatialIndex(words));
+    const indexed = time(() =>
+      points.map(({ x, y }) => mapPointToWords(index.query(x, y, radius + padding), x, y)[0])
+    );
+    const linear = time(() => points.map(({ x, y }) => mapPointToWords(words, x, y)[0]));
+
+    // The index must return exactly what the linear scan finds
+    const mismatches = indexed.result.filter(
+      (candidate, i) => candidate?.word.index !== linear.result[i]?.word.index
+    ).length;
+
+    console.log(
+      `${String(size).padEnd(9)}${buildMs.toFixed(1).padStart(8)}` +
+        `${((indexed.ms * 1000) / LOOKUPS).toFixed(2).padStart(18)}` +
+        `${((linear.ms * 1000) / LOOKUPS).toFixed(2).padStart(19)}` +
+        `${String(mismatches).padStart(13)}`
+    );
+    if (mismatches > 0) process.exitCode = 1;
+  }
+} finally {
+  await server.close();
+}
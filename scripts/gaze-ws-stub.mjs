@@ -0,0 +1,117 @@
+/**
+ * Gaze WebSocket stub server
+ * Publishes synthetic reading-like gaze samples in the format documented in
+ * src/services/websocketGazeSource.ts, for testing the WebSocket gaze source
+ * without tracker hardware. No dependencies, just Node.
+ *
+ * Usage: npm run gaze-stub -- [--port 8765] [--rate 60]
+ */
+
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? Number(args[index + 1]) : fallback;
+};
+
+const PORT = option("port", 8765);
+const RATE = option("rate", 60); // Hz
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+// Reading path: left to right along lines, then a return sweep
+const LINE_START_X = 120;
+const LINE_END_X = 900;
+const FIRST_LINE_Y = 260;
+const LINE_HEIGHT = 30;
+const LINES = 12;
+const SPEED = 250; // px per second along a line
+
+/**
+ * Encode a text frame (server frames are not masked)
+ */
+function encodeFrame(text) {
+  const payload = Buffer.from(text);
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+function samplePosition(elapsedMs) {
+  const lineLength = LINE_END_X - LINE_START_X;
+  const distance = (elapsedMs / 1000) * SPEED;
+  const line = Math.floor(distance / lineLength) % LINES;
+  const x = LINE_START_X + (distance % lineLength);
+  const y = FIRST_LINE_Y + line * LINE_HEIGHT;
+  const noise = () => (Math.random() - 0.5) * 12;
+  return { x: x + noise(), y: y + noise() };
+}
+
+const server = createServer((_, res) => {
+  res.writeHead(426, { "Content-Type": "text/plain" });
+  res.end("WebSocket gaze stub: connect with a WebSocket client\n");
+});
+
+server.on("upgrade", (req, socket) => {
+  const key = req.headers["sec-websocket-key"];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+
+  const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  console.log(`Client connected from ${req.socket.remoteAddress}`);
+
+  const startedAt = Date.now();
+  const send = (message) => socket.write(encodeFrame(JSON.stringify(message)));
+
+  send({ type: "calibration", status: "complete" });
+
+  const timer = setInterval(() => {
+    const now = Date.now();
+    const elapsed = now - startedAt;
+    // Every 10 s simulate a short tracking loss
+    const lost = elapsed % 10000 > 9700;
+    const { x, y } = samplePosition(elapsed);
+    send({ type: "sample", x, y, time: now, state: lost ? -1 : 0 });
+  }, 1000 / RATE);
+
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(timer);
+    socket.destroy();
+    console.log("Client disconnected");
+  };
+
+  socket.on("data", (data) => {
+    // Opcode 0x8: close frame from the client
+    if ((data[0] & 0x0f) === 0x8) close();
+  });
+  socket.on("error", close);
+  socket.on("end", close);
+});
+
+server.listen(PORT, () => {
+  console.log(`Gaze WebSocket stub listening on ws://localhost:${PORT} at ${RATE} Hz`);
+});
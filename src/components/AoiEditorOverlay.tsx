@@ -0,0 +1,150 @@
+import React, { useRef, useState } from "react";
+import type { Point, Rect } from "@/lib/coordinates";
+import customAoiService from "@/services/customAoiService";
+import viewportService from "@/services/viewportService";
+import { useCustomAois } from "@/hooks/use-custom-aois";
+
+export type AoiEditorMode = "off" | "draw" | "select";
+
+interface AoiEditorOverlayProps {
+  containerRef: React.RefObject<HTMLDivElement>;
+  mode: AoiEditorMode;
+  visible: boolean;
+}
+
+const MIN_SIZE = 8; // px; smaller drags are treated as clicks
+
+const rectBetween = (a: Point, b: Point): Rect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+/**
+ * Custom AOIs drawn over the text container. In draw mode a drag adds a
+ * rectangle, in select mode a click adds the element under the pointer.
+ * Positioned inside the container, so rectangles use container coordinates.
+ */
+const AoiEditorOverlay = ({ containerRef, mode, visible }: AoiEditorOverlayProps) => {
+  const aois = useCustomAois();
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [draft, setDraft] = useState<Rect | null>(null);
+  const [hovered, setHovered] = useState<Element | null>(null);
+
+  const container = containerRef.current;
+  if (!container || (!visible && mode === "off")) {
+    return null;
+  }
+  const origin = viewportService.getElementOrigin(container);
+
+  // Pointer position in container space
+  const toContainer = (event: React.PointerEvent): Point =>
+    viewportService.toContainer(
+      viewportService.toDocument({ x: event.clientX, y: event.clientY }),
+      container
+    );
+
+  const elementAt = (event: React.PointerEvent): Element | null =>
+    document
+      .elementsFromPoint(event.clientX, event.clientY)
+      .find(
+        (element) =>
+          element !== container &&
+          container.contains(element) &&
+          !overlayRef.current?.contains(element)
+      ) ?? null;
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (mode === "draw") {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setDragStart(toContainer(event));
+    } else if (mode === "select") {
+      const element = elementAt(event);
+      if (element) {
+        const text = (element.textContent ?? "").trim().slice(0, 30);
+        customAoiService.addElement(text || element.tagName.toLowerCase(), element);
+      }
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (mode === "draw" && dragStart) {
+      setDraft(rectBetween(dragStart, toContainer(event)));
+    } else if (mode === "select") {
+      setHovered(elementAt(event));
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (mode === "draw" && draft && draft.width >= MIN_SIZE && draft.height >= MIN_SIZE) {
+      customAoiService.addRectangle(`AOI ${aois.length + 1}`, {
+        ...draft,
+        x: draft.x + origin.x,
+        y: draft.y + origin.y,
+      });
+    }
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  const hoveredRect =
+    mode === "select" && hovered
+      ? viewportService.rectToDocument(hovered.getBoundingClientRect())
+      : null;
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`absolute inset-0 z-30 ${mode === "off" ? "pointer-events-none" : ""} ${
+        mode === "draw" ? "cursor-crosshair" : mode === "select" ? "cursor-pointer" : ""
+      }`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={() => setHovered(null)}
+    >
+      {/* Saved AOIs; bounds are in document space */}
+      {aois.map((aoi) => (
+        <div
+          key={aoi.id}
+          className="absolute rounded-sm border-2 border-dashed border-sky-500 bg-sky-500/10"
+          style={{
+            left: aoi.bounds.x - origin.x,
+            top: aoi.bounds.y - origin.y,
+            width: aoi.bounds.width,
+            height: aoi.bounds.height,
+          }}
+        >
+          <span className="absolute -top-5 left-0 whitespace-nowrap rounded bg-sky-500 px-1 text-xs text-white">
+            {aoi.name}
+          </span>
+        </div>
+      ))}
+
+      {/* Rectangle being drawn */}
+      {draft && (
+        <div
+          className="absolute border-2 border-sky-600 bg-sky-500/20"
+          style={{ left: draft.x, top: draft.y, width: draft.width, height: draft.height }}
+        />
+      )}
+
+      {/* Element that a click would add */}
+      {hoveredRect && (
+        <div
+          className="absolute border-2 border-amber-500 bg-amber-400/20"
+          style={{
+            left: hoveredRect.x - origin.x,
+            top: hoveredRect.y - origin.y,
+            width: hoveredRect.width,
+            height: hoveredRect.height,
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AoiEditorOverlay;
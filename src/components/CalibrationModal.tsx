@@ -2,7 +2,8 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Target, AlertCircle, Loader } from "lucide-react";
-import gazeCloudService from "@/services/gazeCloudService";
+import gazeSourceManager from "@/services/gazeSourceManager";
+import gazeEventBus from "@/services/gazeEventBus";
 
 interface CalibrationModalProps {
   isOpen: boolean;
@@ -18,27 +19,32 @@ const CalibrationModal = ({ isOpen, onComplete, onClose }: CalibrationModalProps
     if (!isOpen) {
       setIsCalibrating(false);
       setError(null);
-    } else {
-      // Setup calibration callbacks when modal opens
-      gazeCloudService.setOnCalibrationComplete(() => {
-        console.log("GazeCloud calibration completed");
+      return;
+    }
+
+    // Listen for calibration events while the modal is open
+    const unsubscribers = [
+      gazeEventBus.subscribe("calibrationComplete", () => {
+        console.log("Gaze source calibration completed");
         setIsCalibrating(false);
         // Keep tracking running after calibration so user can start sessions without recalibrating
         setTimeout(() => {
           onComplete();
         }, 500);
-      });
+      }),
 
-      gazeCloudService.setOnCameraDenied(() => {
+      gazeEventBus.subscribe("cameraDenied", () => {
         setError("Camera access denied. Please allow camera access to proceed.");
         setIsCalibrating(false);
-      });
+      }),
 
-      gazeCloudService.setOnError((msg: string) => {
+      gazeEventBus.subscribe("error", (msg: string) => {
         setError(`Calibration error: ${msg}`);
         setIsCalibrating(false);
-      });
-    }
+      }),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
   }, [isOpen, onComplete]);
 
   const handleStartCalibration = async () => {
@@ -47,10 +53,10 @@ const CalibrationModal = ({ isOpen, onComplete, onClose }: CalibrationModalProps
       setIsCalibrating(true);
 
       // Enable click-based recalibration for best results
-      gazeCloudService.enableClickRecalibration(true);
+      gazeSourceManager.enableClickRecalibration(true);
 
-      // Start eye tracking (which triggers GazeCloud's native calibration)
-      gazeCloudService.startTracking();
+      // Start eye tracking (which triggers the source's own calibration, e.g. GazeCloud's)
+      gazeSourceManager.start();
     } catch (err) {
       const errorMsg =
         err instanceof Error ? err.message : "Failed to start calibration";
@@ -116,7 +122,7 @@ const CalibrationModal = ({ isOpen, onComplete, onClose }: CalibrationModalProps
                     onClick={() => {
                       setError(null);
                       setIsCalibrating(false);
-                      gazeCloudService.stopTracking();
+                      gazeSourceManager.stop();
                     }}
                     className="mt-2 text-xs underline hover:no-underline"
                   >
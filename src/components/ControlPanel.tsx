@@ -1,5 +1,15 @@
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GazeSourceStatus } from "@/services/gazeSource";
+import { GazeTimingStats } from "@/services/gazeTimingService";
+import { SamplingSummary } from "@/services/samplingMonitorService";
 import { Play, Pause, RotateCcw, Download, Eye, EyeOff, Sparkles } from "lucide-react";
 
 interface ControlPanelProps {
@@ -14,8 +24,23 @@ interface ControlPanelProps {
   onToggleFaceOverlay?: () => void;
   showFaceOverlay?: boolean;
   isAnalyzing?: boolean;
+  gazeSources?: Array<{ id: string; label: string }>;
+  activeGazeSourceId?: string;
+  onGazeSourceChange?: (id: string) => void;
+  gazeSourceStatus?: GazeSourceStatus;
+  timingStats?: GazeTimingStats | null;
+  samplingSummary?: SamplingSummary | null;
+  isTrackingLost?: boolean;
 }
 
+const CONNECTION_STATUS_LABELS: Record<GazeSourceStatus["state"], string> = {
+  idle: "Not connected",
+  connecting: "Connecting...",
+  connected: "Connected",
+  reconnecting: "Reconnecting...",
+  disconnected: "Disconnected",
+};
+
 const ControlPanel = ({
   isTracking,
   isCalibrated,
@@ -28,10 +53,65 @@ const ControlPanel = ({
   onToggleFaceOverlay,
   showFaceOverlay = true,
   isAnalyzing = false,
+  gazeSources = [],
+  activeGazeSourceId,
+  onGazeSourceChange,
+  gazeSourceStatus,
+  timingStats,
+  samplingSummary,
+  isTrackingLost = false,
 }: ControlPanelProps) => {
   return (
     <Card className="p-6">
       <div className="flex flex-col gap-6">
+        {/* Gaze source */}
+        {onGazeSourceChange && gazeSources.length > 1 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-foreground">Gaze Source</p>
+            <Select
+              value={activeGazeSourceId}
+              onValueChange={onGazeSourceChange}
+              disabled={isTracking}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select gaze source" />
+              </SelectTrigger>
+              <SelectContent>
+                {gazeSources.map((source) => (
+                  <SelectItem key={source.id} value={source.id}>
+                    {source.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {/* Connection status, only for sources with a connection */}
+        {gazeSourceStatus && gazeSourceStatus.state !== "idle" && (
+          <div className="flex items-center gap-3">
+            <div
+              className={`flex h-3 w-3 rounded-full ${
+                gazeSourceStatus.state === "connected"
+                  ? "bg-success"
+                  : gazeSourceStatus.state === "disconnected"
+                  ? "bg-destructive"
+                  : "bg-accent animate-pulse"
+              }`}
+            />
+            <div>
+              <p className="text-sm font-medium text-foreground">
+                {CONNECTION_STATUS_LABELS[gazeSourceStatus.state]}
+              </p>
+              {gazeSourceStatus.message && (
+                <p className="text-xs text-muted-foreground break-all">
+                  {gazeSourceStatus.message}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Controls */}
         <div className="flex flex-wrap items-center gap-3">
           {!isTracking ? (
@@ -102,7 +182,9 @@ const ControlPanel = ({
         <div className="flex items-center gap-3">
           <div
             className={`flex h-3 w-3 rounded-full ${
-              isTracking
+              isTracking && isTrackingLost
+                ? "bg-destructive animate-pulse"
+                : isTracking
                 ? "bg-success animate-pulse"
                 : isCalibrated
                 ? "bg-accent"
@@ -111,7 +193,9 @@ const ControlPanel = ({
           />
           <div>
             <p className="text-sm font-medium text-foreground">
-              {isTracking
+              {isTracking && isTrackingLost
+                ? "Tracking Lost"
+                : isTracking
                 ? "Tracking Active"
                 : isCalibrated
                 ? "Ready to Track"
@@ -120,6 +204,19 @@ const ControlPanel = ({
             <p className="text-xs text-muted-foreground">
               {gazePointsCount} gaze points recorded
             </p>
+            {isTracking && samplingSummary && samplingSummary.sampleCount > 1 && (
+              <p className="text-xs font-mono text-muted-foreground">
+                Rate {samplingSummary.liveHz} Hz (avg {samplingSummary.effectiveHz}) | Interval{" "}
+                {samplingSummary.intervalMedian} ms (p95 {samplingSummary.intervalP95}) | Gaps{" "}
+                {samplingSummary.gaps.length}
+              </p>
+            )}
+            {isTracking && timingStats && timingStats.latencyMean !== null && (
+              <p className="text-xs font-mono text-muted-foreground">
+                Latency {timingStats.latencyMean} ms (max {timingStats.latencyMax}) | Jitter{" "}
+                {timingStats.jitter} ms | Clock offset {timingStats.clockOffset} ms
+              </p>
+            )}
           </div>
         </div>
       </div>
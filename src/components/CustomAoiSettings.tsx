@@ -0,0 +1,112 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { AoiEditorMode } from "@/components/AoiEditorOverlay";
+import customAoiService from "@/services/customAoiService";
+import { useCustomAois } from "@/hooks/use-custom-aois";
+import { MousePointerClick, Square, Trash2 } from "lucide-react";
+
+interface CustomAoiSettingsProps {
+  mode: AoiEditorMode;
+  onModeChange: (mode: AoiEditorMode) => void;
+  showOverlay: boolean;
+  onShowOverlayChange: (show: boolean) => void;
+  canEdit: boolean;
+}
+
+const CustomAoiSettings = ({
+  mode,
+  onModeChange,
+  showOverlay,
+  onShowOverlayChange,
+  canEdit,
+}: CustomAoiSettingsProps) => {
+  const aois = useCustomAois();
+
+  const toggleMode = (next: AoiEditorMode) => {
+    onModeChange(mode === next ? "off" : next);
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-col gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Custom AOIs</h3>
+          <p className="text-xs text-muted-foreground">
+            Regions of the text (a heading, a figure, a call-out) measured in the export
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            variant={mode === "draw" ? "default" : "outline"}
+            size="sm"
+            onClick={() => toggleMode("draw")}
+            disabled={!canEdit}
+          >
+            <Square className="mr-2 h-4 w-4" />
+            Draw
+          </Button>
+          <Button
+            variant={mode === "select" ? "default" : "outline"}
+            size="sm"
+            onClick={() => toggleMode("select")}
+            disabled={!canEdit}
+          >
+            <MousePointerClick className="mr-2 h-4 w-4" />
+            Select element
+          </Button>
+        </div>
+
+        {mode !== "off" && (
+          <p className="text-xs text-muted-foreground">
+            {mode === "draw"
+              ? "Drag over the text to draw a rectangle"
+              : "Click an element of the text to add it"}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between gap-3">
+          <Label htmlFor="aoi-overlay" className="text-sm">
+            Show AOIs over the text
+          </Label>
+          <Switch id="aoi-overlay" checked={showOverlay} onCheckedChange={onShowOverlayChange} />
+        </div>
+
+        {aois.length > 0 && (
+          <div className="flex flex-col gap-2">
+            {aois.map((aoi) => (
+              <div key={aoi.id} className="flex items-center gap-2">
+                <Input
+                  aria-label="AOI name"
+                  className="h-8"
+                  value={aoi.name}
+                  onChange={(event) => customAoiService.rename(aoi.id, event.target.value)}
+                />
+                <span className="text-xs text-muted-foreground">
+                  {aoi.source === "element" ? "element" : "rect"}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => customAoiService.remove(aoi.id)}
+                  aria-label={`Remove ${aoi.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => customAoiService.clear()}>
+              Remove all
+            </Button>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default CustomAoiSettings;
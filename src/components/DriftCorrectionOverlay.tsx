@@ -0,0 +1,59 @@
+import type { DriftCorrectionResult } from "@/services/driftCorrectionService";
+import { useScrollPosition } from "@/hooks/use-scroll-position";
+
+interface DriftCorrectionOverlayProps {
+  result: DriftCorrectionResult | null;
+}
+
+/**
+ * Before/after view of the drift correction: original fixation centroids as
+ * hollow circles, corrected ones filled, joined by the applied shift
+ */
+const DriftCorrectionOverlay = ({ result }: DriftCorrectionOverlayProps) => {
+  const scroll = useScrollPosition();
+
+  if (!result || result.fixations.length === 0) {
+    return null;
+  }
+
+  return (
+    <svg
+      className="fixed inset-0 pointer-events-none z-40"
+      style={{ width: "100vw", height: "100vh" }}
+    >
+      {/* Fixation positions are in document space */}
+      <g transform={`translate(${-scroll.x} ${-scroll.y})`}>
+        {result.fixations.map((fixation) => (
+          <g key={`drift-${fixation.fixationIndex}`}>
+            <line
+              x1={fixation.originalX}
+              y1={fixation.originalY}
+              x2={fixation.correctedX}
+              y2={fixation.correctedY}
+              stroke="rgb(148, 163, 184)"
+              strokeWidth="1"
+              strokeDasharray="3 2"
+            />
+            <circle
+              cx={fixation.originalX}
+              cy={fixation.originalY}
+              r="5"
+              fill="none"
+              stroke="rgb(249, 115, 22)"
+              strokeWidth="1.5"
+            />
+            <circle
+              cx={fixation.correctedX}
+              cy={fixation.correctedY}
+              r="4"
+              fill="rgb(34, 197, 94)"
+              opacity="0.8"
+            />
+          </g>
+        ))}
+      </g>
+    </svg>
+  );
+};
+
+export default DriftCorrectionOverlay;
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import driftCorrectionService from "@/services/driftCorrectionService";
+
+interface DriftCorrectionSettingsProps {
+  showOverlay: boolean;
+  onShowOverlayChange: (show: boolean) => void;
+  canShowOverlay: boolean;
+}
+
+const DriftCorrectionSettings = ({
+  showOverlay,
+  onShowOverlayChange,
+  canShowOverlay,
+}: DriftCorrectionSettingsProps) => {
+  const [enabled, setEnabled] = useState(driftCorrectionService.isEnabled());
+
+  const handleEnabledChange = (checked: boolean) => {
+    driftCorrectionService.setEnabled(checked);
+    setEnabled(checked);
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-col gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Drift Correction</h3>
+          <p className="text-xs text-muted-foreground">
+            Snaps fixations onto text lines before they are attributed to words
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <Label htmlFor="drift-enabled" className="text-sm">
+            Use corrected fixations
+          </Label>
+          <Switch id="drift-enabled" checked={enabled} onCheckedChange={handleEnabledChange} />
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <Label htmlFor="drift-overlay" className="text-sm">
+            Show before/after overlay
+          </Label>
+          <Switch
+            id="drift-overlay"
+            checked={showOverlay}
+            onCheckedChange={onShowOverlayChange}
+            disabled={!canShowOverlay}
+          />
+        </div>
+
+        {showOverlay && canShowOverlay && (
+          <div className="flex items-center gap-4 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-2.5 w-2.5 rounded-full border-2 border-orange-500" />
+              Original
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-2.5 w-2.5 rounded-full bg-green-500" />
+              Corrected
+            </span>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default DriftCorrectionSettings;
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import fixationService, {
+  FIXATION_ALGORITHM_LABELS,
+  FixationAlgorithm,
+} from "@/services/fixationService";
+
+interface ParameterField {
+  key: string;
+  label: string;
+  unit: string;
+}
+
+const PARAMETER_FIELDS: Record<FixationAlgorithm, ParameterField[]> = {
+  ivt: [
+    { key: "velocityThreshold", label: "Velocity threshold", unit: "px/s" },
+    { key: "minFixationDuration", label: "Min. fixation duration", unit: "ms" },
+    { key: "maxSampleGap", label: "Max. sample gap", unit: "ms" },
+  ],
+  idt: [
+    { key: "dispersionRadius", label: "Dispersion radius", unit: "px" },
+    { key: "minFixationDuration", label: "Duration window", unit: "ms" },
+    { key: "maxSampleGap", label: "Max. sample gap", unit: "ms" },
+  ],
+};
+
+const parameterValues = (algorithm: FixationAlgorithm): Record<string, number> =>
+  Object.fromEntries(Object.entries(fixationService.getParameters(algorithm)));
+
+const FixationSettings = () => {
+  const [algorithm, setAlgorithm] = useState<FixationAlgorithm>(fixationService.getAlgorithm());
+  const [parameters, setParameters] = useState(() => parameterValues(algorithm));
+
+  const handleAlgorithmChange = (value: string) => {
+    const next = value as FixationAlgorithm;
+    fixationService.setAlgorithm(next);
+    setAlgorithm(next);
+    setParameters(parameterValues(next));
+  };
+
+  const handleParameterChange = (key: string, raw: string) => {
+    const value = Number(raw);
+    setParameters((prev) => ({ ...prev, [key]: value }));
+    if (Number.isFinite(value) && value >= 0) {
+      fixationService.configure(algorithm, { [key]: value });
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-col gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Fixation Detection</h3>
+          <p className="text-xs text-muted-foreground">
+            Applied to the recorded samples on export and analysis
+          </p>
+        </div>
+
+        <Select value={algorithm} onValueChange={handleAlgorithmChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(FIXATION_ALGORITHM_LABELS) as FixationAlgorithm[]).map((id) => (
+              <SelectItem key={id} value={id}>
+                {FIXATION_ALGORITHM_LABELS[id]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="grid grid-cols-1 gap-3">
+          {PARAMETER_FIELDS[algorithm].map((field) => (
+            <div key={field.key} className="flex items-center justify-between gap-3">
+              <Label htmlFor={`fixation-${field.key}`} className="text-sm">
+                {field.label} ({field.unit})
+              </Label>
+              <Input
+                id={`fixation-${field.key}`}
+                type="number"
+                min={0}
+                className="w-24"
+                value={parameters[field.key] ?? ""}
+                onChange={(event) => handleParameterChange(field.key, event.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default FixationSettings;
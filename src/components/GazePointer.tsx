@@ -1,4 +1,7 @@
 import { useEffect, useState } from "react";
+import gazeEventBus from "@/services/gazeEventBus";
+import { GazeData } from "@/services/gazeSource";
+import { useScrollPosition } from "@/hooks/use-scroll-position";
 
 interface GazePointerProps {
   isTracking: boolean;
@@ -6,6 +9,8 @@ interface GazePointerProps {
 
 const GazePointer = ({ isTracking }: GazePointerProps) => {
   const [gazePosition, setGazePosition] = useState<{ x: number; y: number } | null>(null);
+  // Samples are in document space, the pointer is fixed to the viewport
+  const scroll = useScrollPosition();
 
   useEffect(() => {
     if (!isTracking) {
@@ -13,21 +18,13 @@ const GazePointer = ({ isTracking }: GazePointerProps) => {
       return;
     }
 
-    // Listen to GazeCloud data from window
-    const handleGazeData = (event: any) => {
-      if (event.detail && event.detail.x !== undefined && event.detail.y !== undefined) {
-        setGazePosition({
-          x: event.detail.x,
-          y: event.detail.y,
-        });
-      }
-    };
-
-    window.addEventListener("gazeData", handleGazeData);
-
-    return () => {
-      window.removeEventListener("gazeData", handleGazeData);
-    };
+    // Follow the smoothed samples of the active gaze source
+    return gazeEventBus.subscribe("smoothedSample", (data: GazeData) => {
+      setGazePosition({
+        x: data.x,
+        y: data.y,
+      });
+    });
   }, [isTracking]);
 
   if (!isTracking || !gazePosition) {
@@ -40,8 +37,8 @@ const GazePointer = ({ isTracking }: GazePointerProps) => {
       <div
         className="fixed z-10 pointer-events-none"
         style={{
-          left: `${gazePosition.x}px`,
-          top: `${gazePosition.y}px`,
+          left: `${gazePosition.x - scroll.x}px`,
+          top: `${gazePosition.y - scroll.y}px`,
           transform: "translate(-50%, -50%)",
         }}
       >
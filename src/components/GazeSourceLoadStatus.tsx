@@ -0,0 +1,62 @@
+import { Button } from "@/components/ui/button";
+import { AlertCircle, CheckCircle2, Loader2, RotateCcw } from "lucide-react";
+
+export type GazeSourceLoadState = "loading" | "ready" | "failed";
+
+interface GazeSourceLoadStatusProps {
+  state: GazeSourceLoadState;
+  sourceLabel: string;
+  message?: string | null;
+  onRetry?: () => void;
+  fallbackLabel?: string;
+  onFallback?: () => void;
+}
+
+const GazeSourceLoadStatus = ({
+  state,
+  sourceLabel,
+  message,
+  onRetry,
+  fallbackLabel,
+  onFallback,
+}: GazeSourceLoadStatusProps) => {
+  if (state === "loading") {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>{message || `Loading ${sourceLabel}...`}</span>
+      </div>
+    );
+  }
+
+  if (state === "ready") {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <CheckCircle2 className="h-4 w-4 text-success" />
+        <span>{sourceLabel} ready</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <div className="flex items-center gap-2 text-sm text-destructive">
+        <AlertCircle className="h-4 w-4 flex-shrink-0" />
+        <span>{message || `Failed to load ${sourceLabel}`}</span>
+      </div>
+      {onRetry && (
+        <Button onClick={onRetry} variant="outline" size="sm" className="gap-2">
+          <RotateCcw className="h-4 w-4" />
+          Retry
+        </Button>
+      )}
+      {onFallback && fallbackLabel && (
+        <Button onClick={onFallback} variant="secondary" size="sm">
+          Use {fallbackLabel}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default GazeSourceLoadStatus;
@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { FileUp, Pause, Play, SkipBack, StepForward } from "lucide-react";
+import replayGazeSource, {
+  REPLAY_SPEEDS,
+  ReplaySpeed,
+  ReplayState,
+} from "@/services/replayGazeSource";
+
+interface ReplayControlsProps {
+  isTracking: boolean;
+}
+
+const speedLabel = (speed: ReplaySpeed) => (speed === "step" ? "Stepwise" : `${speed}x`);
+
+const ReplayControls = ({ isTracking }: ReplayControlsProps) => {
+  const [state, setState] = useState<ReplayState>(replayGazeSource.getState());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => replayGazeSource.subscribe(setState), []);
+
+  // Samples are only recorded while tracking, so don't play into the void
+  useEffect(() => {
+    if (!isTracking) {
+      replayGazeSource.pause();
+    }
+  }, [isTracking]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      await replayGazeSource.loadFile(file);
+      toast.success(`Loaded ${file.name} for replay`);
+    } catch (error) {
+      const errorMsg =
+        error instanceof Error ? error.message : "Failed to load replay file";
+      console.error(errorMsg);
+      toast.error(errorMsg);
+    }
+  };
+
+  const hasSamples = state.totalSamples > 0;
+  const isStepwise = state.speed === "step";
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-col gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Session Replay</h3>
+          <p className="text-xs text-muted-foreground">
+            {state.fileName
+              ? `${state.fileName} — ${state.position} / ${state.totalSamples} samples`
+              : "Load an exported eye-tracking-data file to replay it"}
+          </p>
+        </div>
+
+        {hasSamples && (
+          <Progress value={(state.position / state.totalSamples) * 100} />
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            variant="outline"
+            className="gap-2"
+            disabled={state.isPlaying}
+          >
+            <FileUp className="h-4 w-4" />
+            Load File
+          </Button>
+
+          <Select
+            value={String(state.speed)}
+            onValueChange={(value) =>
+              replayGazeSource.setSpeed(value === "step" ? "step" : (Number(value) as ReplaySpeed))
+            }
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPLAY_SPEEDS.map((speed) => (
+                <SelectItem key={speed} value={String(speed)}>
+                  {speedLabel(speed)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {isStepwise ? (
+            <Button
+              onClick={() => replayGazeSource.step()}
+              className="gap-2"
+              disabled={!isTracking || !hasSamples || state.position >= state.totalSamples}
+            >
+              <StepForward className="h-4 w-4" />
+              Step
+            </Button>
+          ) : state.isPlaying ? (
+            <Button onClick={() => replayGazeSource.pause()} variant="secondary" className="gap-2">
+              <Pause className="h-4 w-4" />
+              Pause
+            </Button>
+          ) : (
+            <Button
+              onClick={() => replayGazeSource.play()}
+              className="gap-2"
+              disabled={!isTracking || !hasSamples}
+            >
+              <Play className="h-4 w-4" />
+              Play
+            </Button>
+          )}
+
+          <Button
+            onClick={() => replayGazeSource.rewind()}
+            variant="outline"
+            className="gap-2"
+            disabled={!hasSamples || state.position === 0}
+          >
+            <SkipBack className="h-4 w-4" />
+            Rewind
+          </Button>
+        </div>
+
+        {!isTracking && hasSamples && (
+          <p className="text-xs text-muted-foreground">
+            Start tracking to record the replayed samples.
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default ReplayControls;
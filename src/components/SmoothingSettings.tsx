@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import gazeSmoothingService, {
+  SMOOTHING_FILTER_LABELS,
+  SmoothingFilterType,
+} from "@/services/gazeSmoothingService";
+
+interface ParameterField {
+  key: string;
+  label: string;
+  unit: string;
+  step?: number;
+}
+
+const PARAMETER_FIELDS: Record<SmoothingFilterType, ParameterField[]> = {
+  none: [],
+  oneEuro: [
+    { key: "minCutoff", label: "Min. cutoff", unit: "Hz", step: 0.1 },
+    { key: "beta", label: "Speed coefficient", unit: "β", step: 0.001 },
+    { key: "derivativeCutoff", label: "Derivative cutoff", unit: "Hz", step: 0.1 },
+  ],
+  kalman: [
+    { key: "processNoise", label: "Process noise", unit: "px²/ms" },
+    { key: "measurementNoise", label: "Measurement noise", unit: "px²" },
+  ],
+  median: [{ key: "windowSize", label: "Window", unit: "samples" }],
+};
+
+const parameterValues = (filter: SmoothingFilterType): Record<string, number> =>
+  Object.fromEntries(Object.entries(gazeSmoothingService.getParameters(filter)));
+
+const SmoothingSettings = () => {
+  const [filter, setFilter] = useState<SmoothingFilterType>(gazeSmoothingService.getFilter());
+  const [parameters, setParameters] = useState(() => parameterValues(filter));
+
+  const handleFilterChange = (value: string) => {
+    const next = value as SmoothingFilterType;
+    gazeSmoothingService.setFilter(next);
+    setFilter(next);
+    setParameters(parameterValues(next));
+  };
+
+  const handleParameterChange = (key: string, raw: string) => {
+    const value = Number(raw);
+    setParameters((prev) => ({ ...prev, [key]: value }));
+    if (Number.isFinite(value) && value >= 0) {
+      gazeSmoothingService.configure(filter, { [key]: value });
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-col gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Gaze Smoothing</h3>
+          <p className="text-xs text-muted-foreground">
+            Applied to the gaze pointer and word highlight; recorded samples stay raw
+          </p>
+        </div>
+
+        <Select value={filter} onValueChange={handleFilterChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SMOOTHING_FILTER_LABELS) as SmoothingFilterType[]).map((id) => (
+              <SelectItem key={id} value={id}>
+                {SMOOTHING_FILTER_LABELS[id]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {PARAMETER_FIELDS[filter].length > 0 && (
+          <div className="grid grid-cols-1 gap-3">
+            {PARAMETER_FIELDS[filter].map((field) => (
+              <div key={field.key} className="flex items-center justify-between gap-3">
+                <Label htmlFor={`smoothing-${field.key}`} className="text-sm">
+                  {field.label} ({field.unit})
+                </Label>
+                <Input
+                  id={`smoothing-${field.key}`}
+                  type="number"
+                  min={0}
+                  step={field.step}
+                  className="w-24"
+                  value={parameters[field.key] ?? ""}
+                  onChange={(event) => handleParameterChange(field.key, event.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default SmoothingSettings;
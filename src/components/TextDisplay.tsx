@@ -1,11 +1,19 @@
-import React, { useEffect, useState, useRef } from "react";
-import wordTrackingService, { WordBounds } from "@/services/wordTrackingService";
+import React, { useCallback, useEffect, useState, useRef } from "react";
+import wordTrackingService, {
+  LayoutChangeReason,
+  WordBounds,
+} from "@/services/wordTrackingService";
+import { useScrollPosition } from "@/hooks/use-scroll-position";
+import { useLayoutChanges } from "@/hooks/use-layout-changes";
+import type { TokenizerOptions } from "@/lib/tokenization";
 
 interface TextDisplayProps {
   children: React.ReactNode;
   containerRef: React.RefObject<HTMLDivElement>;
   highlightedWordIndex?: number;
   onWordsExtracted?: (words: WordBounds[]) => void;
+  overlay?: React.ReactNode; // positioned over the text, in container coordinates
+  tokenizerOptions?: TokenizerOptions;
 }
 
 const TextDisplay = ({
@@ -13,39 +21,44 @@ const TextDisplay = ({
   containerRef,
   highlightedWordIndex,
   onWordsExtracted,
+  overlay,
+  tokenizerOptions,
 }: TextDisplayProps) => {
   const [wordBounds, setWordBounds] = useState<WordBounds[]>([]);
-  const [containerOffset, setContainerOffset] = useState({ x: 0, y: 0 });
   const wrapperRef = useRef<HTMLDivElement>(null);
+  const tokenizerRef = useRef(tokenizerOptions);
+  // Word bounds are in document space, the overlay is fixed to the viewport
+  const scroll = useScrollPosition();
 
-  useEffect(() => {
-    if (!containerRef.current) return;
-
-    // Extract word bounds when component mounts
-    const bounds = wordTrackingService.extractWordBounds(containerRef.current);
-    setWordBounds(bounds);
+  const extractBounds = useCallback(
+    (reason: LayoutChangeReason) => {
+      if (!containerRef.current) return;
 
-    if (onWordsExtracted) {
-      onWordsExtracted(bounds);
-    }
+      const bounds = wordTrackingService.extractWordBounds(containerRef.current, reason);
+      setWordBounds(bounds);
 
-    // Update container offset
-    const rect = containerRef.current.getBoundingClientRect();
-    setContainerOffset({ x: rect.left, y: rect.top });
-  }, [containerRef, onWordsExtracted]);
+      if (onWordsExtracted) {
+        onWordsExtracted(bounds);
+      }
+    },
+    [containerRef, onWordsExtracted]
+  );
 
-  // Recalculate offset on window resize
+  // Extract word bounds when component mounts
   useEffect(() => {
-    const handleResize = () => {
-      if (containerRef.current) {
-        const rect = containerRef.current.getBoundingClientRect();
-        setContainerOffset({ x: rect.left, y: rect.top });
-      }
-    };
+    extractBounds("initial");
+  }, [extractBounds]);
+
+  // Re-extract when fonts, size, content or zoom move the words
+  useLayoutChanges(containerRef, extractBounds);
 
-    window.addEventListener("resize", handleResize);
-    return () => window.removeEventListener("resize", handleResize);
-  }, [containerRef]);
+  // Re-tokenize when the text language or granularity changes
+  useEffect(() => {
+    if (!tokenizerOptions || tokenizerRef.current === tokenizerOptions) return;
+    tokenizerRef.current = tokenizerOptions;
+    wordTrackingService.setTokenizerOptions(tokenizerOptions);
+    extractBounds("tokenization");
+  }, [tokenizerOptions, extractBounds]);
 
   return (
     <div ref={wrapperRef} className="relative">
@@ -61,8 +74,8 @@ const TextDisplay = ({
             return (
               <rect
                 key={`highlight-${word.index}`}
-                x={word.x}
-                y={word.y}
+                x={word.x - scroll.x}
+                y={word.y - scroll.y}
                 width={word.width}
                 height={word.height}
                 fill="rgb(253, 224, 71)"
@@ -78,6 +91,8 @@ const TextDisplay = ({
       <div ref={containerRef} className="relative">
         {children}
       </div>
+
+      {overlay}
     </div>
   );
 };
@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { TokenGranularity, TokenizerOptions } from "@/lib/tokenization";
+
+const GRANULARITY_LABELS: Record<TokenGranularity, string> = {
+  word: "Words",
+  grapheme: "Characters",
+};
+
+interface TokenizationSettingsProps {
+  options: TokenizerOptions;
+  onOptionsChange: (options: TokenizerOptions) => void;
+  segmenterSupported: boolean;
+  disabled?: boolean;
+  hasRecording?: boolean;
+}
+
+const isValidLocale = (locale: string) => {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+};
+
+const TokenizationSettings = ({
+  options,
+  onOptionsChange,
+  segmenterSupported,
+  disabled,
+  hasRecording,
+}: TokenizationSettingsProps) => {
+  const [locale, setLocale] = useState(options.locale);
+  // Change waiting for confirmation because it discards the recording
+  const [pending, setPending] = useState<TokenizerOptions | null>(null);
+
+  useEffect(() => {
+    setLocale(options.locale);
+  }, [options.locale]);
+
+  const requestChange = (next: TokenizerOptions) => {
+    if (next.locale === options.locale && next.granularity === options.granularity) return;
+    if (hasRecording) {
+      setPending(next);
+    } else {
+      onOptionsChange(next);
+    }
+  };
+
+  /**
+   * Apply the typed locale once editing is done (blur or Enter), not per keystroke
+   */
+  const commitLocale = () => {
+    const value = locale.trim();
+    if (isValidLocale(value)) {
+      requestChange({ ...options, locale: value });
+    } else {
+      setLocale(options.locale);
+    }
+  };
+
+  const confirmChange = () => {
+    if (pending) onOptionsChange(pending);
+    setPending(null);
+  };
+
+  const cancelChange = () => {
+    setPending(null);
+    setLocale(options.locale);
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-col gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Tokenization</h3>
+          <p className="text-xs text-muted-foreground">
+            How the text is split into the words (or characters) that gaze is mapped to
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <Label htmlFor="tokenizer-locale" className="text-sm">
+            Text language
+          </Label>
+          <Input
+            id="tokenizer-locale"
+            className="w-24"
+            value={locale}
+            disabled={disabled}
+            onChange={(event) => setLocale(event.target.value)}
+            onBlur={commitLocale}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") commitLocale();
+            }}
+          />
+        </div>
+
+        <Select
+          value={options.granularity}
+          disabled={disabled}
+          onValueChange={(value) =>
+            requestChange({ ...options, granularity: value as TokenGranularity })
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(GRANULARITY_LABELS) as TokenGranularity[]).map((id) => (
+              <SelectItem key={id} value={id}>
+                {GRANULARITY_LABELS[id]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {hasRecording && !disabled && (
+          <p className="text-xs text-muted-foreground">
+            Changing the tokenization discards the recorded session
+          </p>
+        )}
+
+        {!segmenterSupported && (
+          <p className="text-xs text-muted-foreground">
+            This browser has no Intl.Segmenter; words are split at spaces
+          </p>
+        )}
+      </div>
+
+      <AlertDialog open={pending !== null} onOpenChange={(open) => !open && cancelChange()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard the recorded session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Gaze is mapped to the words of the current tokenization, so changing it clears
+              the recorded session. Export the data first to keep it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep session</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmChange}>Discard and change</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default TokenizationSettings;
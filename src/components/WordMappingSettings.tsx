@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import wordTrackingService from "@/services/wordTrackingService";
+import type { WordMappingOptions, WordMappingStrategy } from "@/lib/wordMapping";
+
+const STRATEGY_LABELS: Record<WordMappingStrategy, string> = {
+  strict: "Inside word box",
+  nearest: "Nearest word within radius",
+  probabilistic: "Probabilistic (by distance)",
+};
+
+type NumericOption = Exclude<keyof WordMappingOptions, "strategy">;
+
+interface OptionField {
+  key: NumericOption;
+  label: string;
+}
+
+const OPTION_FIELDS: Record<WordMappingStrategy, OptionField[]> = {
+  strict: [{ key: "padding", label: "Box padding" }],
+  nearest: [
+    { key: "padding", label: "Box padding" },
+    { key: "radius", label: "Search radius" },
+  ],
+  probabilistic: [
+    { key: "padding", label: "Box padding" },
+    { key: "radius", label: "Search radius" },
+    { key: "sigma", label: "Distance spread (σ)" },
+  ],
+};
+
+const WordMappingSettings = () => {
+  const [options, setOptions] = useState<WordMappingOptions>(
+    wordTrackingService.getMappingOptions()
+  );
+
+  const handleStrategyChange = (value: string) => {
+    const strategy = value as WordMappingStrategy;
+    wordTrackingService.setMappingOptions({ strategy });
+    setOptions((prev) => ({ ...prev, strategy }));
+  };
+
+  const handleOptionChange = (key: NumericOption, raw: string) => {
+    const value = Number(raw);
+    setOptions((prev) => ({ ...prev, [key]: value }));
+    // An empty field reads as 0; sigma must stay positive or the weights become NaN
+    const valid =
+      raw.trim() !== "" && Number.isFinite(value) && (key === "sigma" ? value > 0 : value >= 0);
+    if (valid) {
+      wordTrackingService.setMappingOptions({ [key]: value });
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-col gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Word Mapping</h3>
+          <p className="text-xs text-muted-foreground">
+            How gaze samples between words and lines are attributed to words
+          </p>
+        </div>
+
+        <Select value={options.strategy} onValueChange={handleStrategyChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(STRATEGY_LABELS) as WordMappingStrategy[]).map((id) => (
+              <SelectItem key={id} value={id}>
+                {STRATEGY_LABELS[id]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="grid grid-cols-1 gap-3">
+          {OPTION_FIELDS[options.strategy].map((field) => (
+            <div key={field.key} className="flex items-center justify-between gap-3">
+              <Label htmlFor={`mapping-${field.key}`} className="text-sm">
+                {field.label} (px)
+              </Label>
+              <Input
+                id={`mapping-${field.key}`}
+                type="number"
+                min={field.key === "sigma" ? 0.1 : 0}
+                step={field.key === "sigma" ? 0.1 : 1}
+                className="w-24"
+                value={options[field.key]}
+                onChange={(event) => handleOptionChange(field.key, event.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default WordMappingSettings;
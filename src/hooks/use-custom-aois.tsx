@@ -0,0 +1,16 @@
+import * as React from "react";
+import customAoiService from "@/services/customAoiService";
+
+/**
+ * Custom AOIs, updated when they are edited or moved by a layout change
+ */
+export function useCustomAois() {
+  const [aois, setAois] = React.useState(() => customAoiService.getAois());
+
+  React.useEffect(() => {
+    setAois(customAoiService.getAois());
+    return customAoiService.subscribe(setAois);
+  }, []);
+
+  return aois;
+}
@@ -0,0 +1,60 @@
+import * as React from "react";
+import type { LayoutChangeReason } from "@/services/wordTrackingService";
+
+// Changes often come in bursts (resize drags, font swaps), handle them once settled
+const LAYOUT_SETTLE_DELAY = 150; // ms
+
+/**
+ * Call `onChange` when the layout of an element may have changed: its size or
+ * the page size, its content, loaded web fonts or the device pixel ratio (zoom)
+ */
+export function useLayoutChanges(
+  ref: React.RefObject<HTMLElement>,
+  onChange: (reason: LayoutChangeReason) => void
+) {
+  const onChangeRef = React.useRef(onChange);
+  onChangeRef.current = onChange;
+
+  React.useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    let timer: number | undefined;
+    const schedule = (reason: LayoutChangeReason) => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => onChangeRef.current(reason), LAYOUT_SETTLE_DELAY);
+    };
+
+    // The page size covers layout shifts above the element that don't resize it
+    const resizeObserver = new ResizeObserver(() => schedule("resize"));
+    resizeObserver.observe(element);
+    resizeObserver.observe(document.body);
+
+    const mutationObserver = new MutationObserver(() => schedule("content"));
+    mutationObserver.observe(element, { childList: true, subtree: true, characterData: true });
+
+    const handleFonts = () => schedule("fonts");
+    document.fonts?.addEventListener("loadingdone", handleFonts);
+
+    // A resolution query only matches one ratio, so re-register after each change
+    let resolutionQuery: MediaQueryList | null = null;
+    const handleZoom = () => {
+      schedule("zoom");
+      watchResolution();
+    };
+    const watchResolution = () => {
+      resolutionQuery?.removeEventListener("change", handleZoom);
+      resolutionQuery = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+      resolutionQuery.addEventListener("change", handleZoom);
+    };
+    watchResolution();
+
+    return () => {
+      window.clearTimeout(timer);
+      resizeObserver.disconnect();
+      mutationObserver.disconnect();
+      document.fonts?.removeEventListener("loadingdone", handleFonts);
+      resolutionQuery?.removeEventListener("change", handleZoom);
+    };
+  }, [ref]);
+}
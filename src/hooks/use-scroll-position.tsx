@@ -0,0 +1,16 @@
+import * as React from "react";
+import viewportService from "@/services/viewportService";
+
+/**
+ * Page scroll offset, updated while the page scrolls
+ */
+export function useScrollPosition() {
+  const [scroll, setScroll] = React.useState(() => viewportService.getScroll());
+
+  React.useEffect(() => {
+    setScroll(viewportService.getScroll());
+    return viewportService.subscribe(setScroll);
+  }, []);
+
+  return scroll;
+}
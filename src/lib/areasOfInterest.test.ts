@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { AoiVisitTracker, AoiWord, buildAois } from "./areasOfInterest";
+
+const word = (
+  index: number,
+  text: string,
+  separator: string,
+  x: number,
+  lineIndex = 0,
+  sentenceIndex = 0
+): AoiWord => ({
+  word: text,
+  separator,
+  index,
+  x,
+  y: 100 + lineIndex * 30,
+  width: 40,
+  height: 20,
+  lineIndex,
+  sentenceIndex,
+  paragraphIndex: 0,
+});
+
+describe("buildAois", () => {
+  it("groups words per level with the union of their boxes", () => {
+    const words = [
+      word(0, "One", "", 0),
+      word(1, "two.", " ", 50),
+      word(2, "Three", " ", 0, 1, 1),
+    ];
+
+    const lines = buildAois(words, "line");
+    expect(lines.map((aoi) => [aoi.firstWordIndex, aoi.lastWordIndex])).toEqual([
+      [0, 1],
+      [2, 2],
+    ]);
+    expect(lines[0].bounds).toEqual({ x: 0, y: 100, width: 90, height: 20 });
+
+    const [paragraph] = buildAois(words, "paragraph");
+    expect(paragraph.bounds).toEqual({ x: 0, y: 100, width: 90, height: 50 });
+    expect(paragraph.text).toBe("One two. Three");
+  });
+
+  it("joins words with the separators of the source text", () => {
+    const chinese = [word(0, "我们", "", 0), word(1, "去", "", 40), word(2, "学校。", "", 80)];
+    expect(buildAois(chinese, "sentence")[0].text).toBe("我们去学校。");
+
+    // e.g. "<b>un</b>believable" and a dash tokenized apart
+    const latin = [word(0, "un", "", 0), word(1, "believable", "", 40), word(2, "—yes", " ", 80)];
+    expect(buildAois(latin, "line")[0].text).toBe("unbelievable —yes");
+  });
+});
+
+describe("AoiVisitTracker", () => {
+  it("counts dwell up to the gap threshold and visits on re-entry", () => {
+    const tracker = new AoiVisitTracker(100);
+    tracker.record(0, 0);
+    tracker.record(0, 50);
+    tracker.record(null, 80); // off the AOIs: doesn't end the visit
+    tracker.record(0, 100);
+    tracker.record(1, 300); // 200 ms gap, dropped
+    tracker.record(0, 350);
+
+    expect(tracker.getMetrics(0)).toEqual({ dwellTime: 50 + 30, visits: 2, firstEntryTime: 0 });
+    expect(tracker.getMetrics(1)).toEqual({ dwellTime: 50, visits: 1, firstEntryTime: 300 });
+    expect(tracker.getMetrics(2)).toEqual({ dwellTime: 0, visits: 0, firstEntryTime: null });
+  });
+});
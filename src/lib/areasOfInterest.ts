@@ -0,0 +1,147 @@
+/**
+ * Areas of interest (AOIs) over the text and their visit metrics
+ */
+
+export type AoiLevel = "word" | "line" | "sentence" | "paragraph";
+
+export const AOI_LEVELS: AoiLevel[] = ["word", "line", "sentence", "paragraph"];
+
+export interface AoiWord {
+  word: string;
+  separator: string; // text between the previous word and this one, whitespace collapsed
+  index: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  lineIndex: number;
+  sentenceIndex: number;
+  paragraphIndex: number;
+}
+
+export interface AreaOfInterest {
+  level: AoiLevel;
+  index: number;
+  firstWordIndex: number;
+  lastWordIndex: number;
+  text: string;
+  // Union of the word boxes; for AOIs spanning several lines this includes the line ends
+  bounds: { x: number; y: number; width: number; height: number };
+}
+
+export interface AoiMetrics {
+  dwellTime: number; // ms
+  visits: number; // entries from another AOI of the same level
+  firstEntryTime: number | null; // timestamp of the first sample in the AOI
+}
+
+/**
+ * Index of the AOI a word belongs to on each level
+ */
+export const aoiIndexOf = (word: AoiWord, level: AoiLevel): number => {
+  switch (level) {
+    case "word":
+      return word.index;
+    case "line":
+      return word.lineIndex;
+    case "sentence":
+      return word.sentenceIndex;
+    case "paragraph":
+      return word.paragraphIndex;
+  }
+};
+
+/**
+ * Group words (in text order) into the AOIs of one level
+ */
+export function buildAois(words: AoiWord[], level: AoiLevel): AreaOfInterest[] {
+  const aois: AreaOfInterest[] = [];
+  const groups = new Map<number, AoiWord[]>();
+  for (const word of words) {
+    const index = aoiIndexOf(word, level);
+    const group = groups.get(index);
+    if (group) {
+      group.push(word);
+    } else {
+      groups.set(index, [word]);
+    }
+  }
+
+  for (const [index, group] of groups) {
+    const left = Math.min(...group.map((w) => w.x));
+    const top = Math.min(...group.map((w) => w.y));
+    const right = Math.max(...group.map((w) => w.x + w.width));
+    const bottom = Math.max(...group.map((w) => w.y + w.height));
+    aois.push({
+      level,
+      index,
+      firstWordIndex: group[0].index,
+      lastWordIndex: group[group.length - 1].index,
+      // Joined with the text's own separators: CJK words and characters have none
+      text: group.map((w, i) => (i === 0 ? w.word : w.separator + w.word)).join(""),
+      bounds: { x: left, y: top, width: right - left, height: bottom - top },
+    });
+  }
+
+  return aois.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Dwell time, visits and first entry per AOI of one level, fed one sample at a time.
+ * Each sample's interval up to the next sample counts towards its AOI unless it
+ * exceeds the gap threshold; samples outside every AOI don't end a visit.
+ */
+export class AoiVisitTracker {
+  private metrics: Map<number, AoiMetrics> = new Map();
+  private openAoi: number | null = null;
+  private openTimestamp: number | null = null;
+  private lastVisited: number | null = null;
+
+  constructor(private gapThreshold: number) {}
+
+  record(aoiIndex: number | null, timestamp: number): void {
+    if (this.openAoi !== null && this.openTimestamp !== null) {
+      const interval = timestamp - this.openTimestamp;
+      if (interval > 0 && interval <= this.gapThreshold) {
+        this.getOrCreate(this.openAoi).dwellTime += interval;
+      }
+    }
+
+    if (aoiIndex !== null) {
+      const metrics = this.getOrCreate(aoiIndex);
+      if (aoiIndex !== this.lastVisited) {
+        metrics.visits++;
+        this.lastVisited = aoiIndex;
+      }
+      metrics.firstEntryTime ??= timestamp;
+    }
+
+    this.openAoi = aoiIndex;
+    this.openTimestamp = timestamp;
+  }
+
+  setGapThreshold(threshold: number): void {
+    this.gapThreshold = threshold;
+  }
+
+  getMetrics(aoiIndex: number): AoiMetrics {
+    const metrics = this.metrics.get(aoiIndex);
+    return metrics ? { ...metrics } : { dwellTime: 0, visits: 0, firstEntryTime: null };
+  }
+
+  reset(): void {
+    this.metrics.clear();
+    this.openAoi = null;
+    this.openTimestamp = null;
+    this.lastVisited = null;
+  }
+
+  private getOrCreate(aoiIndex: number): AoiMetrics {
+    let metrics = this.metrics.get(aoiIndex);
+    if (!metrics) {
+      metrics = { dwellTime: 0, visits: 0, firstEntryTime: null };
+      this.metrics.set(aoiIndex, metrics);
+    }
+    return metrics;
+  }
+}
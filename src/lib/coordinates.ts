@@ -0,0 +1,49 @@
+/**
+ * Conversions between the coordinate spaces used for gaze and word boxes
+ *
+ * document:  px from the top-left of the page; gaze samples and word bounds use this
+ * viewport:  px from the top-left of the visible window (getBoundingClientRect, position: fixed)
+ * container: px from the top-left of an element (overlays positioned inside it)
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect extends Point {
+  width: number;
+  height: number;
+}
+
+export const documentToViewport = (point: Point, scroll: Point): Point => ({
+  x: point.x - scroll.x,
+  y: point.y - scroll.y,
+});
+
+export const viewportToDocument = (point: Point, scroll: Point): Point => ({
+  x: point.x + scroll.x,
+  y: point.y + scroll.y,
+});
+
+/**
+ * `origin` is the container's top-left corner in document space
+ */
+export const documentToContainer = (point: Point, origin: Point): Point => ({
+  x: point.x - origin.x,
+  y: point.y - origin.y,
+});
+
+export const containerToDocument = (point: Point, origin: Point): Point => ({
+  x: point.x + origin.x,
+  y: point.y + origin.y,
+});
+
+/**
+ * Move a viewport rect (e.g. from getBoundingClientRect) into document space
+ */
+export const viewportRectToDocument = (rect: Rect, scroll: Point): Rect => ({
+  ...viewportToDocument(rect, scroll),
+  width: rect.width,
+  height: rect.height,
+});
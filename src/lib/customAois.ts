@@ -0,0 +1,106 @@
+/**
+ * Fixation metrics for user-defined AOIs (rectangles over the stimulus)
+ */
+
+import type { Point, Rect } from "./coordinates";
+
+export interface CustomAoiRegion {
+  id: string;
+  bounds: Rect; // document space
+}
+
+export interface AoiFixation {
+  start: number;
+  duration: number;
+  x: number;
+  y: number;
+}
+
+export interface CustomAoiMetrics {
+  dwellTime: number; // ms, summed fixation durations
+  fixationCount: number;
+  entries: number; // fixations in the AOI whose previous fixation was outside it
+  timeToFirstFixation: number | null; // ms from the session start
+}
+
+export interface AoiTransition {
+  from: string;
+  to: string;
+  count: number;
+}
+
+export interface CustomAoiMetricsResult {
+  metrics: Map<string, CustomAoiMetrics>;
+  transitions: AoiTransition[];
+}
+
+export const containsPoint = (rect: Rect, { x, y }: Point): boolean =>
+  x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+
+/**
+ * The AOI a point is attributed to for transitions: the smallest one containing
+ * it, so a figure inside a larger section counts as the figure
+ */
+export function primaryAoi<T extends CustomAoiRegion>(aois: T[], point: Point): T | null {
+  let best: T | null = null;
+  for (const aoi of aois) {
+    if (!containsPoint(aoi.bounds, point)) continue;
+    if (!best || aoi.bounds.width * aoi.bounds.height < best.bounds.width * best.bounds.height) {
+      best = aoi;
+    }
+  }
+  return best;
+}
+
+/**
+ * Dwell time, entries and time to first fixation per AOI, and the transitions
+ * between AOIs. Overlapping AOIs each count a fixation inside both; transitions
+ * follow the primary AOI and skip fixations outside every AOI.
+ */
+export function computeCustomAoiMetrics(
+  aois: CustomAoiRegion[],
+  fixations: AoiFixation[],
+  sessionStart: number
+): CustomAoiMetricsResult {
+  const metrics = new Map<string, CustomAoiMetrics>(
+    aois.map((aoi) => [
+      aoi.id,
+      { dwellTime: 0, fixationCount: 0, entries: 0, timeToFirstFixation: null },
+    ])
+  );
+  const transitionCounts = new Map<string, AoiTransition>();
+  let previousInside = new Set<string>();
+  let previousPrimary: string | null = null;
+
+  for (const fixation of fixations) {
+    const inside = new Set<string>();
+    for (const aoi of aois) {
+      if (!containsPoint(aoi.bounds, fixation)) continue;
+      inside.add(aoi.id);
+
+      const aoiMetrics = metrics.get(aoi.id)!;
+      aoiMetrics.dwellTime += fixation.duration;
+      aoiMetrics.fixationCount++;
+      if (!previousInside.has(aoi.id)) {
+        aoiMetrics.entries++;
+      }
+      aoiMetrics.timeToFirstFixation ??= fixation.start - sessionStart;
+    }
+    previousInside = inside;
+
+    const primary = primaryAoi(aois, fixation)?.id ?? null;
+    if (primary === null) continue;
+    if (previousPrimary !== null && primary !== previousPrimary) {
+      const key = `${previousPrimary}\u0000${primary}`;
+      const transition = transitionCounts.get(key);
+      if (transition) {
+        transition.count++;
+      } else {
+        transitionCounts.set(key, { from: previousPrimary, to: primary, count: 1 });
+      }
+    }
+    previousPrimary = primary;
+  }
+
+  return { metrics, transitions: Array.from(transitionCounts.values()) };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { LineWord, correctDriftChain, groupWordsIntoLines } from "./driftCorrection";
+
+// Two lines of three words, 20 px high, 40 px apart
+const words: LineWord[] = [0, 1, 2, 3, 4, 5].map((index) => ({
+  index,
+  x: (index % 3) * 100,
+  y: index < 3 ? 100 : 140,
+  width: 80,
+  height: 20,
+}));
+
+describe("groupWordsIntoLines", () => {
+  it("groups words into lines by their vertical centers", () => {
+    // A slightly raised word (e.g. a larger font) stays on its line
+    const raised = words.map((word) => (word.index === 1 ? { ...word, y: 96, height: 26 } : word));
+
+    expect(groupWordsIntoLines(raised)).toEqual([
+      { index: 0, top: 96, bottom: 122, center: 109, left: 0, right: 280, firstWordIndex: 0, lastWordIndex: 2 },
+      { index: 1, top: 140, bottom: 160, center: 150, left: 0, right: 280, firstWordIndex: 3, lastWordIndex: 5 },
+    ]);
+  });
+
+  it("follows the word order, not the input order", () => {
+    const lines = groupWordsIntoLines([...words].reverse());
+
+    expect(lines.map((line) => [line.firstWordIndex, line.lastWordIndex])).toEqual([
+      [0, 2],
+      [3, 5],
+    ]);
+  });
+});
+
+describe("correctDriftChain", () => {
+  const lines = groupWordsIntoLines(words);
+
+  it("snaps each chain as a whole to the line nearest its mean y", () => {
+    const assignments = correctDriftChain(
+      [
+        // Drifted 15 px down on the first line; single fixations nearer line 2 stay on line 1
+        { x: 10, y: 120 },
+        { x: 110, y: 132 },
+        { x: 250, y: 131 },
+        // Return sweep: a long jump to the left starts a new chain
+        { x: 10, y: 140 },
+        { x: 110, y: 145 },
+      ],
+      lines
+    );
+
+    expect(assignments).toEqual([
+      { lineIndex: 0, correctedY: 110, chainIndex: 0 },
+      { lineIndex: 0, correctedY: 110, chainIndex: 0 },
+      { lineIndex: 0, correctedY: 110, chainIndex: 0 },
+      { lineIndex: 1, correctedY: 150, chainIndex: 1 },
+      { lineIndex: 1, correctedY: 150, chainIndex: 1 },
+    ]);
+  });
+
+  it("starts a new chain above the x and y thresholds only", () => {
+    const chains = (fixations: Array<{ x: number; y: number }>, xThreshold = 200, yThreshold = 30) =>
+      correctDriftChain(fixations, lines, { xThreshold, yThreshold }).map((a) => a.chainIndex);
+
+    expect(chains([{ x: 0, y: 110 }, { x: 200, y: 140 }])).toEqual([0, 0]);
+    expect(chains([{ x: 0, y: 110 }, { x: 201, y: 110 }])).toEqual([0, 1]);
+    expect(chains([{ x: 0, y: 110 }, { x: 0, y: 141 }])).toEqual([0, 1]);
+    expect(chains([{ x: 0, y: 110 }, { x: 0, y: 141 }], 200, 40)).toEqual([0, 0]);
+  });
+
+  it("assigns nothing without lines", () => {
+    expect(correctDriftChain([{ x: 0, y: 0 }], [])).toEqual([]);
+    expect(correctDriftChain([], lines)).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Line-aware drift correction of fixations over multi-line text
+ */
+
+export interface LineWord {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  index: number;
+}
+
+export interface TextLine {
+  index: number;
+  top: number;
+  bottom: number;
+  center: number;
+  left: number;
+  right: number;
+  firstWordIndex: number;
+  lastWordIndex: number;
+}
+
+export interface ChainParameters {
+  xThreshold: number; // px; a longer horizontal jump starts a new chain
+  yThreshold: number; // px; a longer vertical jump starts a new chain
+}
+
+export const DEFAULT_CHAIN_PARAMETERS: ChainParameters = {
+  xThreshold: 200,
+  yThreshold: 30,
+};
+
+export interface LineAssignment {
+  lineIndex: number;
+  correctedY: number; // center of the assigned line
+  chainIndex: number;
+}
+
+/**
+ * Group words into visual lines, in reading order.
+ * A word starts a new line when its vertical center leaves the current line's box.
+ */
+export function groupWordsIntoLines(words: LineWord[]): TextLine[] {
+  const lines: TextLine[] = [];
+  const sorted = [...words].sort((a, b) => a.index - b.index);
+
+  for (const word of sorted) {
+    const center = word.y + word.height / 2;
+    const current = lines[lines.length - 1];
+
+    if (current && center >= current.top && center <= current.bottom) {
+      current.top = Math.min(current.top, word.y);
+      current.bottom = Math.max(current.bottom, word.y + word.height);
+      current.center = (current.top + current.bottom) / 2;
+      current.left = Math.min(current.left, word.x);
+      current.right = Math.max(current.right, word.x + word.width);
+      current.lastWordIndex = word.index;
+    } else {
+      lines.push({
+        index: lines.length,
+        top: word.y,
+        bottom: word.y + word.height,
+        center,
+        left: word.x,
+        right: word.x + word.width,
+        firstWordIndex: word.index,
+        lastWordIndex: word.index,
+      });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Chain algorithm (Carr et al. 2022): consecutive fixations separated by
+ * small jumps form a chain, read on one line; each chain is snapped as a whole
+ * to the line nearest its mean y. Keeps intra-line fixations together even
+ * when the whole sequence has drifted by part of a line.
+ */
+export function correctDriftChain(
+  fixations: Array<{ x: number; y: number }>,
+  lines: TextLine[],
+  parameters: Partial<ChainParameters> = {}
+): LineAssignment[] {
+  const { xThreshold, yThreshold } = { ...DEFAULT_CHAIN_PARAMETERS, ...parameters };
+  if (lines.length === 0) return [];
+
+  const assignments: LineAssignment[] = [];
+  let chainStart = 0;
+  let chainIndex = 0;
+
+  const closeChain = (chainEnd: number) => {
+    let sumY = 0;
+    for (let i = chainStart; i < chainEnd; i++) {
+      sumY += fixations[i].y;
+    }
+    const meanY = sumY / (chainEnd - chainStart);
+
+    let nearest = lines[0];
+    for (const line of lines) {
+      if (Math.abs(line.center - meanY) < Math.abs(nearest.center - meanY)) {
+        nearest = line;
+      }
+    }
+
+    for (let i = chainStart; i < chainEnd; i++) {
+      assignments.push({ lineIndex: nearest.index, correctedY: nearest.center, chainIndex });
+    }
+    chainStart = chainEnd;
+    chainIndex++;
+  };
+
+  for (let i = 1; i < fixations.length; i++) {
+    const dx = Math.abs(fixations[i].x - fixations[i - 1].x);
+    const dy = Math.abs(fixations[i].y - fixations[i - 1].y);
+    if (dx > xThreshold || dy > yThreshold) {
+      closeChain(i);
+    }
+  }
+  if (fixations.length > 0) {
+    closeChain(fixations.length);
+  }
+
+  return assignments;
+}
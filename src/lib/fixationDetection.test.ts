@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { TimedPoint, detectFixationsIDT, detectFixationsIVT } from "./fixationDetection";
+
+/**
+ * `count` samples 20 ms apart from `start`, positions from `at(i)`
+ */
+const samples = (
+  count: number,
+  start: number,
+  at: (i: number) => [number, number]
+): TimedPoint[] =>
+  Array.from({ length: count }, (_, i) => {
+    const [x, y] = at(i);
+    return { x, y, timestamp: start + i * 20 };
+  });
+
+const still = (count: number, start: number, x: number, y = 100) =>
+  samples(count, start, () => [x, y]);
+
+describe("detectFixationsIVT", () => {
+  it("splits fixations at a saccade and reports their centroids", () => {
+    const fixations = detectFixationsIVT([...still(7, 0, 100), ...still(7, 140, 400)]);
+
+    expect(fixations).toEqual([
+      {
+        start: 0,
+        end: 120,
+        duration: 120,
+        x: 100,
+        y: 100,
+        sampleCount: 7,
+        firstSampleIndex: 0,
+        lastSampleIndex: 6,
+      },
+      {
+        start: 140,
+        end: 260,
+        duration: 120,
+        x: 400,
+        y: 100,
+        sampleCount: 7,
+        firstSampleIndex: 7,
+        lastSampleIndex: 13,
+      },
+    ]);
+  });
+
+  it("labels samples at the velocity threshold as saccade samples", () => {
+    // 20 px per 20 ms: exactly 1000 px/s
+    const drifting = samples(10, 0, (i) => [100 + i * 20, 100]);
+
+    expect(detectFixationsIVT(drifting)).toEqual([]);
+    expect(detectFixationsIVT(drifting, { velocityThreshold: 1001 })).toHaveLength(1);
+  });
+
+  it("drops fixations shorter than the minimum duration", () => {
+    expect(detectFixationsIVT(still(5, 0, 100))).toEqual([]); // 80 ms
+    expect(detectFixationsIVT(still(6, 0, 100))).toHaveLength(1); // 100 ms
+    expect(detectFixationsIVT(still(6, 0, 100), { minFixationDuration: 120 })).toEqual([]);
+  });
+
+  it("doesn't bridge gaps longer than the maximum sample gap", () => {
+    const gapped = [...still(6, 0, 100), ...still(6, 300, 100)];
+
+    expect(detectFixationsIVT(gapped).map((f) => [f.start, f.end])).toEqual([
+      [0, 100],
+      [300, 400],
+    ]);
+    expect(detectFixationsIVT(gapped, { maxSampleGap: 200 })).toHaveLength(1);
+  });
+});
+
+describe("detectFixationsIDT", () => {
+  it("grows a fixation while the samples stay within the dispersion radius", () => {
+    const jitter = samples(10, 0, (i) => [100 + (i % 2) * 30, 100 + (i % 3) * 10]);
+    const fixations = detectFixationsIDT([...jitter, ...still(6, 200, 400)]);
+
+    expect(fixations.map((f) => [f.firstSampleIndex, f.lastSampleIndex])).toEqual([
+      [0, 9],
+      [10, 15],
+    ]);
+    expect(fixations[0].x).toBe(115);
+  });
+
+  it("uses the dispersion radius as an inclusive limit", () => {
+    // Alternating 80 px apart: every sample 40 px from the centroid
+    const within = samples(6, 0, (i) => [100 + (i % 2) * 80, 100]);
+    const beyond = samples(6, 0, (i) => [100 + (i % 2) * 82, 100]);
+
+    expect(detectFixationsIDT(within)).toHaveLength(1);
+    expect(detectFixationsIDT(beyond)).toEqual([]);
+    expect(detectFixationsIDT(beyond, { dispersionRadius: 41 })).toHaveLength(1);
+  });
+
+  it("needs a window spanning the minimum duration", () => {
+    expect(detectFixationsIDT(still(5, 0, 100))).toEqual([]); // 80 ms
+    expect(detectFixationsIDT(still(6, 0, 100))).toHaveLength(1); // 100 ms
+  });
+
+  it("doesn't bridge gaps longer than the maximum sample gap", () => {
+    const fixations = detectFixationsIDT([...still(4, 0, 100), ...still(6, 300, 100)]);
+
+    // The 60 ms before the gap are too short for a fixation of their own
+    expect(fixations.map((f) => [f.start, f.end])).toEqual([[300, 400]]);
+  });
+});
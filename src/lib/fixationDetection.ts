@@ -0,0 +1,209 @@
+/**
+ * Fixation detection algorithms over recorded gaze samples
+ */
+
+export interface TimedPoint {
+  x: number;
+  y: number;
+  timestamp: number;
+}
+
+export interface DetectedFixation {
+  start: number; // timestamp of the first sample
+  end: number; // timestamp of the last sample
+  duration: number; // ms
+  x: number; // centroid
+  y: number; // centroid
+  sampleCount: number;
+  firstSampleIndex: number;
+  lastSampleIndex: number;
+}
+
+export interface IVTParameters {
+  velocityThreshold: number; // px/s; slower samples belong to fixations
+  minFixationDuration: number; // ms; shorter fixation candidates are discarded
+  maxSampleGap: number; // ms; a longer gap between samples ends the fixation
+}
+
+export const DEFAULT_IVT_PARAMETERS: IVTParameters = {
+  velocityThreshold: 1000,
+  minFixationDuration: 100,
+  maxSampleGap: 150,
+};
+
+/**
+ * Build a fixation from samples[first..last] (inclusive)
+ */
+export function createFixation(
+  samples: TimedPoint[],
+  first: number,
+  last: number
+): DetectedFixation {
+  let sumX = 0;
+  let sumY = 0;
+  for (let i = first; i <= last; i++) {
+    sumX += samples[i].x;
+    sumY += samples[i].y;
+  }
+  const count = last - first + 1;
+
+  return {
+    start: samples[first].timestamp,
+    end: samples[last].timestamp,
+    duration: samples[last].timestamp - samples[first].timestamp,
+    x: sumX / count,
+    y: sumY / count,
+    sampleCount: count,
+    firstSampleIndex: first,
+    lastSampleIndex: last,
+  };
+}
+
+/**
+ * Velocity-threshold identification (I-VT, Salvucci & Goldberg 2000).
+ * Each sample is labelled fixation or saccade by its point-to-point velocity;
+ * runs of fixation samples lasting at least minFixationDuration become fixations.
+ * Samples must be sorted by timestamp.
+ */
+export function detectFixationsIVT(
+  samples: TimedPoint[],
+  parameters: Partial<IVTParameters> = {}
+): DetectedFixation[] {
+  const { velocityThreshold, minFixationDuration, maxSampleGap } = {
+    ...DEFAULT_IVT_PARAMETERS,
+    ...parameters,
+  };
+  const fixations: DetectedFixation[] = [];
+  if (samples.length < 2) return fixations;
+
+  let runStart = -1;
+
+  const closeRun = (runEnd: number) => {
+    if (runStart === -1) return;
+    const fixation = createFixation(samples, runStart, runEnd);
+    if (fixation.duration >= minFixationDuration) {
+      fixations.push(fixation);
+    }
+    runStart = -1;
+  };
+
+  for (let i = 1; i < samples.length; i++) {
+    const previous = samples[i - 1];
+    const current = samples[i];
+    const dt = current.timestamp - previous.timestamp;
+
+    // Duplicate timestamps carry no velocity information
+    if (dt <= 0) continue;
+
+    if (dt > maxSampleGap) {
+      // Don't bridge tracking gaps with one fixation
+      closeRun(i - 1);
+      continue;
+    }
+
+    const velocity = (Math.hypot(current.x - previous.x, current.y - previous.y) / dt) * 1000;
+
+    if (velocity < velocityThreshold) {
+      if (runStart === -1) {
+        runStart = i - 1;
+      }
+    } else {
+      closeRun(i - 1);
+    }
+  }
+  closeRun(samples.length - 1);
+
+  return fixations;
+}
+
+export interface IDTParameters {
+  dispersionRadius: number; // px; max distance of any sample from the window centroid
+  minFixationDuration: number; // ms; length of the initial window
+  maxSampleGap: number; // ms; a longer gap between samples ends the fixation
+}
+
+export const DEFAULT_IDT_PARAMETERS: IDTParameters = {
+  dispersionRadius: 40,
+  minFixationDuration: 100,
+  maxSampleGap: 150,
+};
+
+/**
+ * Largest distance of samples[first..last] from their centroid
+ */
+function dispersion(samples: TimedPoint[], first: number, last: number): number {
+  let sumX = 0;
+  let sumY = 0;
+  for (let i = first; i <= last; i++) {
+    sumX += samples[i].x;
+    sumY += samples[i].y;
+  }
+  const count = last - first + 1;
+  const cx = sumX / count;
+  const cy = sumY / count;
+
+  let max = 0;
+  for (let i = first; i <= last; i++) {
+    max = Math.max(max, Math.hypot(samples[i].x - cx, samples[i].y - cy));
+  }
+  return max;
+}
+
+/**
+ * Dispersion-threshold identification (I-DT, Salvucci & Goldberg 2000).
+ * A window spanning minFixationDuration whose samples stay within
+ * dispersionRadius of their centroid starts a fixation, which then grows
+ * until the next sample would break the radius. More tolerant of the
+ * sample-to-sample noise that fragments I-VT fixations on webcam data.
+ * Samples must be sorted by timestamp.
+ */
+export function detectFixationsIDT(
+  samples: TimedPoint[],
+  parameters: Partial<IDTParameters> = {}
+): DetectedFixation[] {
+  const { dispersionRadius, minFixationDuration, maxSampleGap } = {
+    ...DEFAULT_IDT_PARAMETERS,
+    ...parameters,
+  };
+  const fixations: DetectedFixation[] = [];
+  const n = samples.length;
+  const continues = (i: number) => samples[i].timestamp - samples[i - 1].timestamp <= maxSampleGap;
+
+  let start = 0;
+  while (start < n - 1) {
+    // Initial window covering the minimum duration, without crossing a gap
+    let end = start;
+    let crossedGap = false;
+    while (end + 1 < n && samples[end].timestamp - samples[start].timestamp < minFixationDuration) {
+      if (!continues(end + 1)) {
+        crossedGap = true;
+        break;
+      }
+      end++;
+    }
+
+    if (crossedGap) {
+      start = end + 1;
+      continue;
+    }
+    if (samples[end].timestamp - samples[start].timestamp < minFixationDuration) break;
+
+    if (dispersion(samples, start, end) > dispersionRadius) {
+      start++;
+      continue;
+    }
+
+    while (
+      end + 1 < n &&
+      continues(end + 1) &&
+      dispersion(samples, start, end + 1) <= dispersionRadius
+    ) {
+      end++;
+    }
+
+    fixations.push(createFixation(samples, start, end));
+    start = end + 1;
+  }
+
+  return fixations;
+}
@@ -0,0 +1,186 @@
+/**
+ * Online smoothing filters for the live gaze stream
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface GazeFilter {
+  /** Filter one sample; timestamps are in ms and must not decrease */
+  filter(point: Point, timestamp: number): Point;
+  /** Forget all history, e.g. after tracking was lost */
+  reset(): void;
+}
+
+export interface OneEuroParameters {
+  minCutoff: number; // Hz; lower removes more jitter while the gaze rests
+  beta: number; // cutoff increase per px/s; higher reduces lag during saccades
+  derivativeCutoff: number; // Hz
+}
+
+export const DEFAULT_ONE_EURO_PARAMETERS: OneEuroParameters = {
+  minCutoff: 1,
+  beta: 0.01,
+  derivativeCutoff: 1,
+};
+
+export interface KalmanParameters {
+  processNoise: number; // px² per ms the gaze may wander between samples
+  measurementNoise: number; // px², variance of the tracker noise
+}
+
+export const DEFAULT_KALMAN_PARAMETERS: KalmanParameters = {
+  processNoise: 5,
+  measurementNoise: 400,
+};
+
+export interface MovingMedianParameters {
+  windowSize: number; // samples
+}
+
+export const DEFAULT_MOVING_MEDIAN_PARAMETERS: MovingMedianParameters = {
+  windowSize: 5,
+};
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+/**
+ * One Euro filter for one axis (Casiez, Roussel & Vogel 2012)
+ */
+class OneEuroAxis {
+  private value: number | null = null;
+  private derivative = 0;
+
+  constructor(private parameters: OneEuroParameters) {}
+
+  filter(value: number, dt: number): number {
+    if (this.value === null) {
+      this.value = value;
+      return value;
+    }
+    if (dt <= 0) return this.value;
+
+    const rawDerivative = (value - this.value) / dt;
+    const derivativeAlpha = smoothingFactor(this.parameters.derivativeCutoff, dt);
+    this.derivative += derivativeAlpha * (rawDerivative - this.derivative);
+
+    const cutoff = this.parameters.minCutoff + this.parameters.beta * Math.abs(this.derivative);
+    this.value += smoothingFactor(cutoff, dt) * (value - this.value);
+    return this.value;
+  }
+
+  reset(): void {
+    this.value = null;
+    this.derivative = 0;
+  }
+}
+
+/**
+ * Speed-adaptive low-pass filter: heavy smoothing while the gaze rests,
+ * little lag while it moves
+ */
+export class OneEuroFilter implements GazeFilter {
+  private x: OneEuroAxis;
+  private y: OneEuroAxis;
+  private lastTimestamp: number | null = null;
+
+  constructor(parameters: Partial<OneEuroParameters> = {}) {
+    const merged = { ...DEFAULT_ONE_EURO_PARAMETERS, ...parameters };
+    this.x = new OneEuroAxis(merged);
+    this.y = new OneEuroAxis(merged);
+  }
+
+  filter(point: Point, timestamp: number): Point {
+    const dt = this.lastTimestamp === null ? 0 : (timestamp - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestamp;
+    return { x: this.x.filter(point.x, dt), y: this.y.filter(point.y, dt) };
+  }
+
+  reset(): void {
+    this.x.reset();
+    this.y.reset();
+    this.lastTimestamp = null;
+  }
+}
+
+/**
+ * Kalman filter with a constant-position model, each axis independent
+ */
+export class KalmanFilter implements GazeFilter {
+  private parameters: KalmanParameters;
+  private estimate: Point | null = null;
+  private variance = 0;
+  private lastTimestamp: number | null = null;
+
+  constructor(parameters: Partial<KalmanParameters> = {}) {
+    this.parameters = { ...DEFAULT_KALMAN_PARAMETERS, ...parameters };
+  }
+
+  filter(point: Point, timestamp: number): Point {
+    if (this.estimate === null || this.lastTimestamp === null) {
+      this.estimate = { ...point };
+      this.variance = this.parameters.measurementNoise;
+      this.lastTimestamp = timestamp;
+      return { ...this.estimate };
+    }
+
+    const dt = Math.max(0, timestamp - this.lastTimestamp);
+    this.lastTimestamp = timestamp;
+
+    // Predict: the gaze may have wandered since the last sample
+    const predicted = this.variance + this.parameters.processNoise * dt;
+    // Update with the new measurement
+    const gain = predicted / (predicted + this.parameters.measurementNoise);
+    this.estimate = {
+      x: this.estimate.x + gain * (point.x - this.estimate.x),
+      y: this.estimate.y + gain * (point.y - this.estimate.y),
+    };
+    this.variance = (1 - gain) * predicted;
+    return { ...this.estimate };
+  }
+
+  reset(): void {
+    this.estimate = null;
+    this.variance = 0;
+    this.lastTimestamp = null;
+  }
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Median of the last samples per axis; drops single-sample spikes entirely
+ */
+export class MovingMedianFilter implements GazeFilter {
+  private windowSize: number;
+  private window: Point[] = [];
+
+  constructor(parameters: Partial<MovingMedianParameters> = {}) {
+    const { windowSize } = { ...DEFAULT_MOVING_MEDIAN_PARAMETERS, ...parameters };
+    this.windowSize = Math.max(1, Math.round(windowSize));
+  }
+
+  filter(point: Point): Point {
+    this.window.push(point);
+    if (this.window.length > this.windowSize) {
+      this.window.shift();
+    }
+    return {
+      x: median(this.window.map((p) => p.x)),
+      y: median(this.window.map((p) => p.y)),
+    };
+  }
+
+  reset(): void {
+    this.window = [];
+  }
+}
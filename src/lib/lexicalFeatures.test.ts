@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  LexicalWord,
+  computeLexicalFeatures,
+  createFrequencyTable,
+  normalizeWord,
+  parseFrequencyTable,
+  splitPunctuation,
+} from "./lexicalFeatures";
+
+describe("splitPunctuation", () => {
+  it("separates leading and trailing punctuation from the core", () => {
+    expect(splitPunctuation("(KTH),")).toEqual({ leading: "(", core: "KTH", trailing: ")," });
+    expect(splitPunctuation("“Quoted!”")).toEqual({ leading: "“", core: "Quoted", trailing: "!”" });
+    expect(splitPunctuation("don't")).toEqual({ leading: "", core: "don't", trailing: "" });
+  });
+
+  it("keeps a token of only punctuation whole", () => {
+    expect(splitPunctuation("—")).toEqual({ leading: "", core: "—", trailing: "" });
+  });
+});
+
+describe("normalizeWord", () => {
+  it("lower-cases, strips punctuation and composes accents", () => {
+    expect(normalizeWord("Technology,")).toBe("technology");
+    expect(normalizeWord("Cafe\u0301.")).toBe("caf\u00e9");
+  });
+});
+
+describe("parseFrequencyTable", () => {
+  it("reads CSV and TSV rows, skipping headers and rows without a value", () => {
+    const csv = parseFrequencyTable("csv", 'Word,FREQcount\n"The",100\ncat,\ndog,7.5\r\n');
+    expect(csv.lookup("the")).toBe(100);
+    expect(csv.lookup("dog")).toBe(7.5);
+    expect(csv.lookup("cat")).toBeNull();
+    expect(csv.lookup("word")).toBeNull();
+
+    const tsv = parseFrequencyTable("tsv", "word\tcount\tzipf\nHouse\t900\t5.2", 2);
+    expect(tsv.lookup("house")).toBe(5.2);
+  });
+});
+
+describe("computeLexicalFeatures", () => {
+  const words: LexicalWord[] = [
+    { word: "The", index: 0, lineIndex: 0, sentenceIndex: 0 },
+    { word: "(old)", index: 1, lineIndex: 0, sentenceIndex: 0 },
+    { word: "cat,", index: 2, lineIndex: 0, sentenceIndex: 0 },
+    { word: "slept.", index: 3, lineIndex: 1, sentenceIndex: 0 },
+    { word: "Nai\u0308ve", index: 4, lineIndex: 1, sentenceIndex: 1 },
+  ];
+  const table = createFrequencyTable("test", [
+    ["the", 1000],
+    ["Cat", 40],
+  ]);
+
+  it("computes form, punctuation and frequency per word", () => {
+    const features = computeLexicalFeatures(words, table);
+
+    expect(features[1]).toMatchObject({
+      normalized: "old",
+      length: 3,
+      leadingPunctuation: "(",
+      trailingPunctuation: ")",
+      frequency: null,
+    });
+    expect(features[2]).toMatchObject({ frequency: 40, endsClause: true, endsSentence: false });
+    expect(features[3]).toMatchObject({ endsSentence: true, endsClause: false });
+    expect(features[4]).toMatchObject({ normalized: "na\u00efve", length: 5 });
+    expect(features[0].frequency).toBe(1000);
+  });
+
+  it("computes positions and lengths within lines and sentences", () => {
+    const features = computeLexicalFeatures(words, null);
+
+    expect(features.map((f) => [f.positionInLine, f.lineLength])).toEqual([
+      [0, 3],
+      [1, 3],
+      [2, 3],
+      [0, 2],
+      [1, 2],
+    ]);
+    expect(features.map((f) => [f.positionInSentence, f.sentenceLength])).toEqual([
+      [0, 4],
+      [1, 4],
+      [2, 4],
+      [3, 4],
+      [0, 1],
+    ]);
+    expect(features.every((f) => f.frequency === null)).toBe(true);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Word normalization and lexical predictors (length, position, frequency)
+ * for the word tokens of the text
+ */
+
+// Punctuation and symbols around a token, e.g. the "(" and ")," of "(KTH),"
+const LEADING_PUNCTUATION = /^[\p{P}\p{S}]+/u;
+const TRAILING_PUNCTUATION = /[\p{P}\p{S}]+$/u;
+// Sentence end, optionally followed by closing quotes or brackets
+const SENTENCE_END = /[.!?…。！？]["'”’)\]」』）]*$/;
+const CLAUSE_END = /[,;:—–，、；：]["'”’)\]」』）]*$/;
+
+export interface LexicalWord {
+  word: string;
+  index: number;
+  lineIndex: number;
+  sentenceIndex: number;
+}
+
+export interface FrequencyTable {
+  name: string;
+  lookup(normalized: string): number | null;
+}
+
+export interface LexicalFeatures {
+  wordIndex: number;
+  word: string; // token as it appears in the text
+  normalized: string; // lower-cased, without surrounding punctuation
+  length: number; // characters of the normalized form
+  leadingPunctuation: string;
+  trailingPunctuation: string;
+  endsSentence: boolean;
+  endsClause: boolean;
+  lineIndex: number;
+  positionInLine: number; // 0-based
+  lineLength: number; // words
+  sentenceIndex: number;
+  positionInSentence: number; // 0-based
+  sentenceLength: number; // words
+  frequency: number | null; // from the frequency table, null when missing or no table is set
+}
+
+export const endsSentence = (token: string): boolean => SENTENCE_END.test(token);
+
+/**
+ * Split a token into its leading punctuation, core and trailing punctuation.
+ * A token of only punctuation (e.g. "—") is all core.
+ */
+export function splitPunctuation(token: string): {
+  leading: string;
+  core: string;
+  trailing: string;
+} {
+  const leading = token.match(LEADING_PUNCTUATION)?.[0] ?? "";
+  if (leading.length === token.length) {
+    return { leading: "", core: token, trailing: "" };
+  }
+  const rest = token.slice(leading.length);
+  const trailing = rest.match(TRAILING_PUNCTUATION)?.[0] ?? "";
+  return { leading, core: rest.slice(0, rest.length - trailing.length), trailing };
+}
+
+/**
+ * Form used to compare and look up words: "Technology," and "technology" are the same word
+ */
+export const normalizeWord = (token: string): string =>
+  splitPunctuation(token.normalize("NFC")).core.toLocaleLowerCase();
+
+/**
+ * Frequency table from (word, value) pairs; words are normalized
+ */
+export function createFrequencyTable(
+  name: string,
+  entries: Iterable<[string, number]>
+): FrequencyTable {
+  const values = new Map<string, number>();
+  for (const [word, value] of entries) {
+    values.set(normalizeWord(word), value);
+  }
+  return { name, lookup: (normalized) => values.get(normalized) ?? null };
+}
+
+/**
+ * Parse a CSV or TSV frequency list (e.g. SUBTLEX exports): word in the first
+ * column, value in `valueColumn`. Rows without a numeric value (headers) are skipped.
+ */
+export function parseFrequencyTable(name: string, text: string, valueColumn = 1): FrequencyTable {
+  const entries: [string, number][] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const columns = line.split(line.includes("\t") ? "\t" : ",");
+    const value = Number(columns[valueColumn]);
+    if (columns[0] && columns[valueColumn]?.trim() && Number.isFinite(value)) {
+      entries.push([columns[0].trim().replace(/^"|"$/g, ""), value]);
+    }
+  }
+  return createFrequencyTable(name, entries);
+}
+
+/**
+ * Lexical features of every word, in text order
+ */
+export function computeLexicalFeatures(
+  words: LexicalWord[],
+  frequencyTable: FrequencyTable | null
+): LexicalFeatures[] {
+  const lineLengths = new Map<number, number>();
+  const sentenceLengths = new Map<number, number>();
+  words.forEach((word) => {
+    lineLengths.set(word.lineIndex, (lineLengths.get(word.lineIndex) ?? 0) + 1);
+    sentenceLengths.set(word.sentenceIndex, (sentenceLengths.get(word.sentenceIndex) ?? 0) + 1);
+  });
+
+  const linePositions = new Map<number, number>();
+  const sentencePositions = new Map<number, number>();
+  return words.map((word) => {
+    const { leading, core, trailing } = splitPunctuation(word.word.normalize("NFC"));
+    const normalized = core.toLocaleLowerCase();
+    const positionInLine = linePositions.get(word.lineIndex) ?? 0;
+    const positionInSentence = sentencePositions.get(word.sentenceIndex) ?? 0;
+    linePositions.set(word.lineIndex, positionInLine + 1);
+    sentencePositions.set(word.sentenceIndex, positionInSentence + 1);
+
+    return {
+      wordIndex: word.index,
+      word: word.word,
+      normalized,
+      length: Array.from(normalized).length,
+      leadingPunctuation: leading,
+      trailingPunctuation: trailing,
+      endsSentence: endsSentence(word.word),
+      endsClause: CLAUSE_END.test(word.word),
+      lineIndex: word.lineIndex,
+      positionInLine,
+      lineLength: lineLengths.get(word.lineIndex)!,
+      sentenceIndex: word.sentenceIndex,
+      positionInSentence,
+      sentenceLength: sentenceLengths.get(word.sentenceIndex)!,
+      frequency: frequencyTable?.lookup(normalized) ?? null,
+    };
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * Script loader with timeout and retry with exponential backoff
+ */
+
+export interface LoadScriptOptions {
+  timeout: number; // ms per attempt
+  retries: number; // extra attempts after the first one
+  retryDelay: number; // ms before the first retry, doubled on each further retry
+  isLoaded?: () => boolean; // extra check that the script really set up its globals
+  onAttempt?: (attempt: number, totalAttempts: number) => void;
+}
+
+export const DEFAULT_LOAD_SCRIPT_OPTIONS: LoadScriptOptions = {
+  timeout: 15000,
+  retries: 2,
+  retryDelay: 1000,
+};
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Inject one <script> tag and wait for it to load, fail or time out.
+ * The tag is removed again on failure so a retry starts clean.
+ */
+function injectScript(src: string, timeout: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = src;
+    script.async = true;
+
+    const timer = setTimeout(() => {
+      finish(new Error(`Timed out after ${Math.round(timeout / 1000)}s loading ${src}`));
+    }, timeout);
+
+    const finish = (error?: Error) => {
+      clearTimeout(timer);
+      script.onload = null;
+      script.onerror = null;
+      if (error) {
+        script.remove();
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    script.onload = () => finish();
+    script.onerror = () => finish(new Error(`Failed to load ${src}`));
+
+    document.head.appendChild(script);
+  });
+}
+
+/**
+ * Load a script, retrying with backoff; rejects with the last error
+ */
+export async function loadScript(
+  src: string,
+  options: Partial<LoadScriptOptions> = {}
+): Promise<void> {
+  const { timeout, retries, retryDelay, isLoaded, onAttempt } = {
+    ...DEFAULT_LOAD_SCRIPT_OPTIONS,
+    ...options,
+  };
+  const totalAttempts = retries + 1;
+  let lastError: Error = new Error(`Failed to load ${src}`);
+
+  for (let attempt = 1; attempt <= totalAttempts; attempt++) {
+    onAttempt?.(attempt, totalAttempts);
+
+    try {
+      await injectScript(src, timeout);
+      if (isLoaded && !isLoaded()) {
+        throw new Error(`${src} loaded but did not initialize`);
+      }
+      return;
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      console.warn(`[loadScript] Attempt ${attempt}/${totalAttempts}: ${lastError.message}`);
+    }
+
+    if (attempt < totalAttempts) {
+      await wait(retryDelay * 2 ** (attempt - 1));
+    }
+  }
+
+  throw lastError;
+}
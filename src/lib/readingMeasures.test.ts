@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { MeasuredFixation, computeReadingMeasures } from "./readingMeasures";
+
+/**
+ * Fixations back to back, as (word, duration) pairs
+ */
+const sequence = (...pairs: Array<[number | null, number]>): MeasuredFixation[] => {
+  let time = 0;
+  return pairs.map(([wordIndex, duration]) => {
+    const fixation = { wordIndex, start: time, end: time + duration, duration };
+    time += duration + 30;
+    return fixation;
+  });
+};
+
+describe("computeReadingMeasures", () => {
+  const measures = computeReadingMeasures(
+    sequence(
+      [0, 200],
+      [0, 150],
+      [2, 250], // skips word 1
+      [null, 100], // off the text: ends the gaze on word 2
+      [2, 120],
+      [1, 180], // regression from word 2 to word 1
+      [3, 220]
+    ),
+    6
+  );
+
+  it("sums consecutive first-pass fixations into the gaze duration", () => {
+    expect(measures[0]).toEqual({
+      wordIndex: 0,
+      firstFixationDuration: 200,
+      singleFixationDuration: null,
+      gazeDuration: 350,
+      goPastTime: 350,
+      totalReadingTime: 350,
+      fixationCount: 2,
+      skipped: false,
+      regressionsIn: 0,
+      regressionsOut: 0,
+    });
+  });
+
+  it("ends the gaze at an off-text fixation but runs go-past time until a word to the right", () => {
+    expect(measures[2]).toMatchObject({
+      firstFixationDuration: 250,
+      singleFixationDuration: 250,
+      gazeDuration: 250,
+      goPastTime: 250 + 100 + 120 + 180,
+      totalReadingTime: 370,
+      fixationCount: 2,
+      skipped: false,
+      regressionsOut: 1,
+    });
+  });
+
+  it("leaves first-pass measures empty for words only read after a later word", () => {
+    expect(measures[1]).toEqual({
+      wordIndex: 1,
+      firstFixationDuration: null,
+      singleFixationDuration: null,
+      gazeDuration: null,
+      goPastTime: null,
+      totalReadingTime: 180,
+      fixationCount: 1,
+      skipped: true,
+      regressionsIn: 1,
+      regressionsOut: 0,
+    });
+  });
+
+  it("marks skipping only up to the furthest word reached", () => {
+    expect(measures.map((m) => m.skipped)).toEqual([false, true, false, false, null, null]);
+    expect(measures[4]).toMatchObject({ firstFixationDuration: null, totalReadingTime: 0, fixationCount: 0 });
+  });
+
+  it("counts a regression per backward move between words, ignoring off-text fixations", () => {
+    const regressions = computeReadingMeasures(
+      sequence([0, 100], [2, 100], [null, 100], [1, 100], [0, 100], [2, 100]),
+      3
+    );
+
+    expect(regressions.map((m) => [m.regressionsIn, m.regressionsOut])).toEqual([
+      [1, 0],
+      [1, 1],
+      [0, 1],
+    ]);
+  });
+
+  it("ignores fixations on words outside the text", () => {
+    const result = computeReadingMeasures(sequence([5, 100], [-1, 100], [0, 200]), 2);
+
+    expect(result[0]).toMatchObject({ firstFixationDuration: 200, skipped: false });
+    expect(result[1]).toMatchObject({ skipped: null, fixationCount: 0 });
+  });
+});
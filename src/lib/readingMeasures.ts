@@ -0,0 +1,106 @@
+/**
+ * Standard word-level reading measures from a fixation sequence
+ * (Rayner 1998; Clifton, Staub & Rayner 2007)
+ */
+
+export interface MeasuredFixation {
+  wordIndex: number | null; // null for fixations off the text
+  start: number;
+  end: number;
+  duration: number; // ms
+}
+
+export interface WordMeasures {
+  wordIndex: number;
+  firstFixationDuration: number | null; // first first-pass fixation; null when skipped
+  singleFixationDuration: number | null; // when first pass has exactly one fixation
+  gazeDuration: number | null; // first-pass fixations before leaving the word
+  goPastTime: number | null; // from entering the word until moving past it to the right
+  totalReadingTime: number; // all fixations on the word
+  fixationCount: number;
+  skipped: boolean | null; // not fixated before a later word was; null when never reached
+  regressionsIn: number; // arrivals from a later word
+  regressionsOut: number; // departures to an earlier word
+}
+
+/**
+ * Compute the measures for words 0..wordCount-1.
+ * Fixations must be in temporal order; off-text fixations end a gaze but
+ * are ignored when judging regressions.
+ */
+export function computeReadingMeasures(
+  fixations: MeasuredFixation[],
+  wordCount: number
+): WordMeasures[] {
+  const measures: WordMeasures[] = Array.from({ length: wordCount }, (_, wordIndex) => ({
+    wordIndex,
+    firstFixationDuration: null,
+    singleFixationDuration: null,
+    gazeDuration: null,
+    goPastTime: null,
+    totalReadingTime: 0,
+    fixationCount: 0,
+    skipped: null,
+    regressionsIn: 0,
+    regressionsOut: 0,
+  }));
+
+  // Totals and regressions over all passes
+  let previousWord: number | null = null;
+  for (const fixation of fixations) {
+    const word = fixation.wordIndex;
+    if (word === null || word < 0 || word >= wordCount) continue;
+
+    measures[word].totalReadingTime += fixation.duration;
+    measures[word].fixationCount++;
+    if (previousWord !== null && word < previousWord) {
+      measures[word].regressionsIn++;
+      measures[previousWord].regressionsOut++;
+    }
+    previousWord = word;
+  }
+
+  // First-pass measures: a word is read in first pass if it is fixated
+  // before any word to its right
+  let rightmostWord = -1;
+  for (let i = 0; i < fixations.length; i++) {
+    const word = fixations[i].wordIndex;
+    if (word === null || word < 0 || word >= wordCount) continue;
+
+    if (word > rightmostWord) {
+      const measure = measures[word];
+      measure.firstFixationDuration = fixations[i].duration;
+
+      // Gaze duration: consecutive fixations on the word
+      let last = i;
+      while (last + 1 < fixations.length && fixations[last + 1].wordIndex === word) {
+        last++;
+      }
+      measure.gazeDuration = fixations
+        .slice(i, last + 1)
+        .reduce((sum, fixation) => sum + fixation.duration, 0);
+      measure.singleFixationDuration = last === i ? fixations[i].duration : null;
+
+      // Go-past time: everything until the first fixation right of the word
+      let exit = i;
+      while (exit + 1 < fixations.length) {
+        const next = fixations[exit + 1].wordIndex;
+        if (next !== null && next > word) break;
+        exit++;
+      }
+      measure.goPastTime = fixations
+        .slice(i, exit + 1)
+        .reduce((sum, fixation) => sum + fixation.duration, 0);
+
+      rightmostWord = word;
+    }
+  }
+
+  // Skipping only applies left of the furthest word reached; words beyond it
+  // (e.g. in an unfinished text) stay null
+  for (let word = 0; word <= rightmostWord; word++) {
+    measures[word].skipped = measures[word].firstFixationDuration === null;
+  }
+
+  return measures;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { DetectedFixation, TimedPoint, createFixation } from "./fixationDetection";
+import {
+  ScreenGeometry,
+  classifySaccade,
+  degreesPerPx,
+  extractSaccades,
+  pxToDegrees,
+} from "./saccadeDetection";
+
+describe("classifySaccade", () => {
+  it("classifies moves within a line by their horizontal direction", () => {
+    expect(classifySaccade(80, 0, 24)).toBe("forward");
+    expect(classifySaccade(0, 0, 24)).toBe("forward");
+    expect(classifySaccade(-80, 5, 24)).toBe("regressive");
+    expect(classifySaccade(80, -11, 24)).toBe("forward");
+  });
+
+  it("treats vertical moves of half a line or more as line changes", () => {
+    expect(classifySaccade(-600, 12, 24)).toBe("return-sweep");
+    expect(classifySaccade(-600, 11.9, 24)).toBe("regressive");
+    // Rightward or upward line changes are no return sweeps
+    expect(classifySaccade(40, 24, 24)).toBe("vertical");
+    expect(classifySaccade(-600, -24, 24)).toBe("vertical");
+  });
+});
+
+describe("pxToDegrees", () => {
+  // 1000 px over 50 cm at 50 cm: 1 cm spans about 1.1459°
+  const geometry: ScreenGeometry = { screenWidthPx: 1000, screenWidthCm: 50, viewingDistanceCm: 50 };
+
+  it("converts distances with the visual angle formula", () => {
+    expect(pxToDegrees(20, geometry)).toBeCloseTo(1.14588, 4);
+    // The full screen width: 2·atan(0.5)
+    expect(pxToDegrees(1000, geometry)).toBeCloseTo(53.1301, 4);
+  });
+
+  it("scales velocities linearly by the angle of one pixel", () => {
+    // 0.05 cm at 50 cm
+    expect(degreesPerPx(geometry)).toBeCloseTo(0.0572958, 6);
+    // Unlike distances, which grow slower than linearly
+    expect(pxToDegrees(1000, geometry)).toBeLessThan(1000 * degreesPerPx(geometry));
+  });
+});
+
+describe("extractSaccades", () => {
+  // Fixation on samples 0-2 at x 100, saccade samples 3-4, fixation on 5-7 at x 300
+  const samples: TimedPoint[] = [
+    { x: 100, y: 100, timestamp: 0 },
+    { x: 100, y: 100, timestamp: 20 },
+    { x: 100, y: 100, timestamp: 40 },
+    { x: 150, y: 100, timestamp: 60 },
+    { x: 250, y: 100, timestamp: 80 },
+    { x: 300, y: 100, timestamp: 100 },
+    { x: 300, y: 100, timestamp: 120 },
+    { x: 300, y: 100, timestamp: 140 },
+  ];
+  const fixations: DetectedFixation[] = [createFixation(samples, 0, 2), createFixation(samples, 5, 7)];
+
+  it("measures the move between consecutive fixations", () => {
+    const [saccade] = extractSaccades(fixations, samples);
+
+    expect(saccade).toMatchObject({
+      fromFixation: 0,
+      toFixation: 1,
+      start: 40,
+      end: 100,
+      duration: 60,
+      amplitude: 200,
+      amplitudeDeg: null,
+      direction: 0,
+      peakVelocity: 5000, // 100 px in 20 ms
+      peakVelocityDeg: null,
+      type: "forward",
+    });
+  });
+
+  it("converts amplitude and peak velocity with the screen geometry", () => {
+    const geometry: ScreenGeometry = { screenWidthPx: 1000, screenWidthCm: 50, viewingDistanceCm: 50 };
+    const [saccade] = extractSaccades(fixations, samples, {}, geometry);
+
+    expect(saccade.amplitudeDeg).toBeCloseTo(pxToDegrees(200, geometry), 12);
+    expect(saccade.peakVelocityDeg).toBeCloseTo(5000 * degreesPerPx(geometry), 12);
+  });
+
+  it("skips transitions longer than the maximum duration", () => {
+    expect(extractSaccades(fixations, samples, { maxDuration: 59 })).toEqual([]);
+    expect(extractSaccades(fixations, samples, { maxDuration: 60 })).toHaveLength(1);
+  });
+});
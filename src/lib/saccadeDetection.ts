@@ -0,0 +1,124 @@
+/**
+ * Saccade extraction between consecutive fixations
+ */
+
+import type { DetectedFixation, TimedPoint } from "./fixationDetection";
+
+export type SaccadeType = "forward" | "regressive" | "return-sweep" | "vertical";
+
+/**
+ * Physical screen setup, needed to express amplitudes in degrees of visual angle
+ */
+export interface ScreenGeometry {
+  screenWidthPx: number; // CSS px, same unit as the gaze coordinates
+  screenWidthCm: number;
+  viewingDistanceCm: number;
+}
+
+export interface SaccadeParameters {
+  lineHeight: number; // px; vertical moves of at least half a line change lines
+  maxDuration: number; // ms; longer transitions span a tracking gap, not one saccade
+}
+
+export const DEFAULT_SACCADE_PARAMETERS: SaccadeParameters = {
+  lineHeight: 24,
+  maxDuration: 300,
+};
+
+export interface DetectedSaccade {
+  fromFixation: number; // index into the fixation list
+  toFixation: number;
+  start: number; // end of the previous fixation
+  end: number; // start of the next fixation
+  duration: number; // ms
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+  amplitude: number; // px
+  amplitudeDeg: number | null; // null without screen geometry
+  direction: number; // degrees, 0 = right, 90 = down (screen coordinates)
+  peakVelocity: number; // px/s
+  peakVelocityDeg: number | null; // deg/s, null without screen geometry
+  type: SaccadeType;
+}
+
+/**
+ * Visual angle in degrees subtended by a distance in px
+ */
+export function pxToDegrees(px: number, geometry: ScreenGeometry): number {
+  const cm = (px * geometry.screenWidthCm) / geometry.screenWidthPx;
+  return (2 * Math.atan(cm / (2 * geometry.viewingDistanceCm)) * 180) / Math.PI;
+}
+
+/**
+ * Visual angle of one pixel at the screen centre, for converting velocities
+ * (px/s) to deg/s; the atan formula above only applies to distances
+ */
+export const degreesPerPx = (geometry: ScreenGeometry): number => pxToDegrees(1, geometry);
+
+/**
+ * Classify a saccade by its displacement relative to the text lines.
+ * A leftward move onto a lower line is a return sweep; any other line change is vertical.
+ */
+export function classifySaccade(dx: number, dy: number, lineHeight: number): SaccadeType {
+  if (Math.abs(dy) >= lineHeight / 2) {
+    return dy > 0 && dx < 0 ? "return-sweep" : "vertical";
+  }
+  return dx >= 0 ? "forward" : "regressive";
+}
+
+/**
+ * Build one saccade for every pair of consecutive fixations.
+ * Peak velocity is the largest point-to-point velocity between the last sample
+ * of one fixation and the first sample of the next; `samples` must be the
+ * sorted array the fixations were detected in.
+ */
+export function extractSaccades(
+  fixations: DetectedFixation[],
+  samples: TimedPoint[],
+  parameters: Partial<SaccadeParameters> = {},
+  geometry: ScreenGeometry | null = null
+): DetectedSaccade[] {
+  const { lineHeight, maxDuration } = { ...DEFAULT_SACCADE_PARAMETERS, ...parameters };
+  const saccades: DetectedSaccade[] = [];
+
+  for (let i = 1; i < fixations.length; i++) {
+    const from = fixations[i - 1];
+    const to = fixations[i];
+    const duration = to.start - from.end;
+    if (duration > maxDuration) continue;
+
+    let peakVelocity = 0;
+    for (let s = from.lastSampleIndex + 1; s <= to.firstSampleIndex; s++) {
+      const dt = samples[s].timestamp - samples[s - 1].timestamp;
+      if (dt <= 0) continue;
+      const distance = Math.hypot(samples[s].x - samples[s - 1].x, samples[s].y - samples[s - 1].y);
+      peakVelocity = Math.max(peakVelocity, (distance / dt) * 1000);
+    }
+
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const amplitude = Math.hypot(dx, dy);
+
+    saccades.push({
+      fromFixation: i - 1,
+      toFixation: i,
+      start: from.end,
+      end: to.start,
+      duration,
+      startX: from.x,
+      startY: from.y,
+      endX: to.x,
+      endY: to.y,
+      amplitude,
+      amplitudeDeg: geometry ? pxToDegrees(amplitude, geometry) : null,
+      direction: (Math.atan2(dy, dx) * 180) / Math.PI,
+      peakVelocity,
+      peakVelocityDeg: geometry ? peakVelocity * degreesPerPx(geometry) : null,
+      type: classifySaccade(dx, dy, lineHeight),
+    });
+  }
+
+  return saccades;
+}
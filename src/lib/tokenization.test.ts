@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { TextToken, isSegmenterSupported, tokenize } from "./tokenization";
+
+const words = (text: string, locale = "en") =>
+  tokenize(text, { locale, granularity: "word" }).map((token) => token.text);
+
+const characters = (text: string) =>
+  tokenize(text, { locale: "en", granularity: "grapheme" }).map((token) => token.text);
+
+describe("tokenize with Intl.Segmenter", () => {
+  it("keeps punctuation attached and splits at dashes, not hyphens", () => {
+    expect(words("The (KTH), two-century industries—a “test”.")).toEqual([
+      "The",
+      "(KTH),",
+      "two-century",
+      "industries—",
+      "a",
+      "“test”.",
+    ]);
+  });
+
+  it("splits text without spaces into words", () => {
+    expect(words("我们去学校。", "zh")).toEqual(["我们", "去", "学校。"]);
+  });
+
+  it("reports the offsets of each token in the text", () => {
+    const text = "  alpha, beta";
+    const tokens: TextToken[] = tokenize(text, { locale: "en", granularity: "word" });
+
+    expect(tokens).toEqual([
+      { text: "alpha,", start: 2, end: 8 },
+      { text: "beta", start: 9, end: 13 },
+    ]);
+    tokens.forEach((token) => expect(text.slice(token.start, token.end)).toBe(token.text));
+  });
+
+  it("makes every visible grapheme a token", () => {
+    expect(characters("e\u0301 👍🏽a")).toEqual(["e\u0301", "👍🏽", "a"]);
+  });
+});
+
+describe("tokenize without Intl.Segmenter", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const withoutSegmenter = () => {
+    vi.stubGlobal("Intl", { ...Intl, Segmenter: undefined });
+    expect(isSegmenterSupported()).toBe(false);
+  };
+
+  it("splits words at whitespace", () => {
+    withoutSegmenter();
+
+    const tokens = tokenize(" industries—a\ttwo-century\n我们去学校。", {
+      locale: "zh",
+      granularity: "word",
+    });
+
+    expect(tokens).toEqual([
+      { text: "industries—a", start: 1, end: 13 },
+      { text: "two-century", start: 14, end: 25 },
+      { text: "我们去学校。", start: 26, end: 32 },
+    ]);
+  });
+
+  it("falls back to code points for characters", () => {
+    withoutSegmenter();
+
+    // Surrogate pairs stay whole; combining marks become tokens of their own
+    expect(characters("a 😀e\u0301")).toEqual(["a", "😀", "e", "\u0301"]);
+    expect(tokenize("a 😀", { locale: "en", granularity: "grapheme" })).toEqual([
+      { text: "a", start: 0, end: 1 },
+      { text: "😀", start: 2, end: 4 },
+    ]);
+  });
+});
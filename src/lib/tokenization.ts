@@ -0,0 +1,101 @@
+/**
+ * Language-aware splitting of text into word or character tokens with
+ * Intl.Segmenter, so scripts without spaces (Chinese, Japanese, Thai) and
+ * dashes between words are tokenized correctly
+ */
+
+export type TokenGranularity = "word" | "grapheme";
+
+export interface TokenizerOptions {
+  locale: string; // BCP 47 tag, e.g. "en", "zh-CN", "ja"
+  granularity: TokenGranularity; // "grapheme" makes every character a token
+}
+
+export interface TextToken {
+  text: string;
+  start: number; // offset in the text node
+  end: number;
+}
+
+// Hyphens that join compounds ("two-century"); dashes ("—", "–") separate words
+const JOINING_HYPHEN = /[-‐‑]$/;
+const WHITESPACE = /^\s+$/;
+
+export const isSegmenterSupported = (): boolean =>
+  typeof Intl !== "undefined" && typeof Intl.Segmenter === "function";
+
+/**
+ * Split text into tokens. Word tokens keep their adjacent punctuation
+ * ("(KTH),"), so punctuation never becomes a token of its own unless it
+ * stands alone; "industries—a" is two tokens, "two-century" one.
+ * Without Intl.Segmenter, words are whitespace-separated runs.
+ */
+export function tokenize(text: string, options: TokenizerOptions): TextToken[] {
+  if (options.granularity === "grapheme") {
+    return tokenizeGraphemes(text, options.locale);
+  }
+  if (!isSegmenterSupported()) {
+    return Array.from(text.matchAll(/\S+/g), (match) => ({
+      text: match[0],
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+    }));
+  }
+
+  const tokens: TextToken[] = [];
+  let current: (TextToken & { hasWord: boolean }) | null = null;
+  const flush = () => {
+    if (current) tokens.push({ text: current.text, start: current.start, end: current.end });
+    current = null;
+  };
+
+  const segmenter = new Intl.Segmenter(options.locale, { granularity: "word" });
+  for (const { segment, index, isWordLike } of segmenter.segment(text)) {
+    if (WHITESPACE.test(segment)) {
+      flush();
+      continue;
+    }
+
+    const joinsCurrent =
+      current !== null &&
+      (!isWordLike || !current.hasWord || JOINING_HYPHEN.test(current.text)) &&
+      current.end === index;
+    if (joinsCurrent) {
+      current.text += segment;
+      current.end = index + segment.length;
+      current.hasWord ||= Boolean(isWordLike);
+    } else {
+      flush();
+      current = { text: segment, start: index, end: index + segment.length, hasWord: Boolean(isWordLike) };
+    }
+  }
+  flush();
+
+  return tokens;
+}
+
+/**
+ * Every visible character (grapheme cluster, so "é" or an emoji stays whole) as a token
+ */
+function tokenizeGraphemes(text: string, locale: string): TextToken[] {
+  const graphemes = isSegmenterSupported()
+    ? Array.from(new Intl.Segmenter(locale, { granularity: "grapheme" }).segment(text), (s) => ({
+        segment: s.segment,
+        index: s.index,
+      }))
+    : codePoints(text);
+
+  return graphemes
+    .filter(({ segment }) => !WHITESPACE.test(segment))
+    .map(({ segment, index }) => ({ text: segment, start: index, end: index + segment.length }));
+}
+
+function codePoints(text: string): { segment: string; index: number }[] {
+  const result: { segment: string; index: number }[] = [];
+  let index = 0;
+  for (const segment of Array.from(text)) {
+    result.push({ segment, index });
+    index += segment.length;
+  }
+  return result;
+}
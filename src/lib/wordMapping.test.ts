@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { WordRect, distanceToRect, mapPointToWords } from "./wordMapping";
+
+// Two words on one line with a 20 px gap: a at x 0-50, b at x 70-120, y 100-120
+const a: WordRect = { x: 0, y: 100, width: 50, height: 20 };
+const b: WordRect = { x: 70, y: 100, width: 50, height: 20 };
+const words = [a, b];
+
+describe("distanceToRect", () => {
+  it("is 0 inside the padded box and euclidean outside it", () => {
+    expect(distanceToRect(25, 110, a)).toBe(0);
+    expect(distanceToRect(53, 110, a)).toBe(3);
+    expect(distanceToRect(53, 110, a, 4)).toBe(0);
+    expect(distanceToRect(58, 127, a, 4)).toBe(5); // 4 right, 3 below the padded corner
+  });
+});
+
+describe("mapPointToWords", () => {
+  it("strict: maps only points inside a padded box", () => {
+    const strict = { strategy: "strict" as const };
+
+    expect(mapPointToWords(words, 54, 110, strict)).toEqual([{ word: a, distance: 0, weight: 1 }]);
+    expect(mapPointToWords(words, 55, 110, strict)).toEqual([]);
+    expect(mapPointToWords(words, 55, 110, { ...strict, padding: 5 })).toHaveLength(1);
+  });
+
+  it("nearest: maps to the closest word within the radius", () => {
+    expect(mapPointToWords(words, 57, 110)).toEqual([{ word: a, distance: 3, weight: 1 }]);
+    expect(mapPointToWords(words, 63, 110)).toEqual([{ word: b, distance: 3, weight: 1 }]);
+    // 30 px below the padded boxes is still in reach, 31 px is not
+    expect(mapPointToWords(words, 25, 154)).toEqual([{ word: a, distance: 30, weight: 1 }]);
+    expect(mapPointToWords(words, 25, 155)).toEqual([]);
+  });
+
+  it("probabilistic: spreads the point over the words in reach by a Gaussian of the distance", () => {
+    const candidates = mapPointToWords(words, 57, 110, { strategy: "probabilistic" });
+    const bWeight = Math.exp(-(9 * 9) / (2 * 15 * 15));
+
+    expect(candidates.map((c) => [c.word, c.distance])).toEqual([
+      [a, 3],
+      [b, 9],
+    ]);
+    expect(candidates[0].weight).toBeCloseTo(Math.exp(-9 / 450) / (Math.exp(-9 / 450) + bWeight), 12);
+    expect(candidates[0].weight + candidates[1].weight).toBeCloseTo(1, 12);
+    expect(candidates[0].weight).toBeGreaterThan(candidates[1].weight);
+  });
+
+  it("probabilistic: gives the nearest word all weight when the weights degenerate", () => {
+    expect(mapPointToWords(words, 57, 110, { strategy: "probabilistic", sigma: 0 })).toEqual([
+      { word: a, distance: 3, weight: 1 },
+    ]);
+    // Both weights underflow to 0
+    expect(
+      mapPointToWords(words, 25, 154, { strategy: "probabilistic", sigma: 0.01, radius: 100 })
+    ).toEqual([{ word: a, distance: 30, weight: 1 }]);
+  });
+});
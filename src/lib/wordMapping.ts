@@ -0,0 +1,84 @@
+/**
+ * Mapping of gaze points onto word boxes
+ */
+
+export interface WordRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * strict: inside the (padded) box only
+ * nearest: inside a padded box, else the closest word within the radius
+ * probabilistic: spread over all words within the radius, weighted by distance
+ */
+export type WordMappingStrategy = "strict" | "nearest" | "probabilistic";
+
+export interface WordMappingOptions {
+  strategy: WordMappingStrategy;
+  padding: number; // px added around every word box
+  radius: number; // px; words further away are never mapped
+  sigma: number; // px; spread of the probabilistic weights
+}
+
+export const DEFAULT_WORD_MAPPING_OPTIONS: WordMappingOptions = {
+  strategy: "nearest",
+  padding: 4,
+  radius: 30,
+  sigma: 15,
+};
+
+export interface WordCandidate<W extends WordRect> {
+  word: W;
+  distance: number; // px from the padded box, 0 inside
+  weight: number; // share of the sample; weights of one mapping sum to 1
+}
+
+/**
+ * Distance from a point to a rectangle grown by `padding`, 0 inside
+ */
+export function distanceToRect(x: number, y: number, rect: WordRect, padding = 0): number {
+  const dx = Math.max(rect.x - padding - x, 0, x - (rect.x + rect.width + padding));
+  const dy = Math.max(rect.y - padding - y, 0, y - (rect.y + rect.height + padding));
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * Map a gaze point to words; candidates are sorted by descending weight
+ */
+export function mapPointToWords<W extends WordRect>(
+  words: Iterable<W>,
+  x: number,
+  y: number,
+  options: Partial<WordMappingOptions> = {}
+): WordCandidate<W>[] {
+  const { strategy, padding, radius, sigma } = { ...DEFAULT_WORD_MAPPING_OPTIONS, ...options };
+  const maxDistance = strategy === "strict" ? 0 : radius;
+
+  const candidates: WordCandidate<W>[] = [];
+  for (const word of words) {
+    const distance = distanceToRect(x, y, word, padding);
+    if (distance <= maxDistance) {
+      candidates.push({ word, distance, weight: 0 });
+    }
+  }
+  if (candidates.length === 0) return candidates;
+
+  candidates.sort((a, b) => a.distance - b.distance);
+
+  // A non-positive sigma is the limit of an ever narrower fall-off: all weight on the nearest word
+  if (strategy !== "probabilistic" || !(sigma > 0)) {
+    return [{ ...candidates[0], weight: 1 }];
+  }
+
+  // Gaussian fall-off with the distance from each word box
+  const raw = candidates.map((c) => Math.exp(-(c.distance * c.distance) / (2 * sigma * sigma)));
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  if (total === 0) {
+    // Every weight underflowed (tiny sigma, far words)
+    return [{ ...candidates[0], weight: 1 }];
+  }
+  return candidates.map((c, i) => ({ ...c, weight: raw[i] / total }));
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { WordRect, distanceToRect } from "./wordMapping";
+import { WordSpatialIndex } from "./wordSpatialIndex";
+
+interface Word extends WordRect {
+  index: number;
+}
+
+// 10 lines of 12 words of varying width, 30 px apart
+const words: Word[] = [];
+for (let line = 0; line < 10; line++) {
+  let x = 20;
+  for (let i = 0; i < 12; i++) {
+    const width = 20 + ((line * 7 + i * 13) % 90);
+    words.push({ index: words.length, x, y: 50 + line * 30, width, height: 20 });
+    x += width + 8;
+  }
+}
+
+describe("WordSpatialIndex", () => {
+  const index = new WordSpatialIndex(words);
+
+  it("finds every word a linear scan finds within the radius", () => {
+    for (let x = -40; x <= 1300; x += 17) {
+      for (let y = 0; y <= 400; y += 11) {
+        for (const radius of [0, 8, 34]) {
+          const expected = words.filter((word) => distanceToRect(x, y, word) <= radius);
+          const found = index.query(x, y, radius);
+          expect(found).toEqual(expect.arrayContaining(expected));
+        }
+      }
+    }
+  });
+
+  it("returns each word once, in insertion order", () => {
+    const wide: Word = { index: 0, x: 0, y: 0, width: 300, height: 200 };
+    const small: Word = { index: 1, x: 100, y: 100, width: 10, height: 10 };
+    const found = new WordSpatialIndex([wide, small]).query(105, 105, 150);
+
+    expect(found).toEqual([wide, small]);
+    expect(new WordSpatialIndex([small, wide]).query(105, 105, 150)).toEqual([small, wide]);
+  });
+
+  it("only returns words from the cells around the point", () => {
+    const found = index.query(30, 60, 0);
+
+    expect(found.map((word) => word.index)).toContain(0);
+    expect(found.length).toBeLessThan(words.length / 4);
+    expect(index.query(5000, 5000, 10)).toEqual([]);
+  });
+
+  it("uses the given cell size", () => {
+    const word: Word = { index: 0, x: 0, y: 0, width: 10, height: 10 };
+    expect(new WordSpatialIndex([word], 16).query(40, 5, 0)).toEqual([]);
+    expect(new WordSpatialIndex([word], 64).query(40, 5, 0)).toEqual([word]);
+  });
+
+  it("reports its size", () => {
+    expect(index.size).toBe(120);
+    expect(new WordSpatialIndex([]).size).toBe(0);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Uniform grid over word boxes, so hit-testing only looks at words near the
+ * gaze point instead of scanning the whole text
+ */
+
+import type { WordRect } from "./wordMapping";
+
+// Roughly one word wide and one to two lines high
+export const DEFAULT_CELL_SIZE = 64; // px
+
+export class WordSpatialIndex<W extends WordRect> {
+  private cells: Map<string, number[]> = new Map();
+  private words: W[];
+
+  constructor(
+    words: Iterable<W>,
+    private cellSize: number = DEFAULT_CELL_SIZE
+  ) {
+    this.words = Array.from(words);
+    this.words.forEach((word, ordinal) => {
+      const [minX, minY] = this.cellOf(word.x, word.y);
+      const [maxX, maxY] = this.cellOf(word.x + word.width, word.y + word.height);
+      for (let cx = minX; cx <= maxX; cx++) {
+        for (let cy = minY; cy <= maxY; cy++) {
+          const key = `${cx}:${cy}`;
+          const cell = this.cells.get(key);
+          if (cell) {
+            cell.push(ordinal);
+          } else {
+            this.cells.set(key, [ordinal]);
+          }
+        }
+      }
+    });
+  }
+
+  get size(): number {
+    return this.words.length;
+  }
+
+  /**
+   * Words whose box may lie within `radius` of the point, in insertion order.
+   * A superset: callers still measure the exact distance.
+   */
+  query(x: number, y: number, radius: number): W[] {
+    const [minX, minY] = this.cellOf(x - radius, y - radius);
+    const [maxX, maxY] = this.cellOf(x + radius, y + radius);
+
+    const ordinals = new Set<number>();
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        this.cells.get(`${cx}:${cy}`)?.forEach((ordinal) => ordinals.add(ordinal));
+      }
+    }
+
+    // Insertion order keeps ties resolved like a linear scan
+    return Array.from(ordinals)
+      .sort((a, b) => a - b)
+      .map((ordinal) => this.words[ordinal]);
+  }
+
+  private cellOf(x: number, y: number): [number, number] {
+    return [Math.floor(x / this.cellSize), Math.floor(y / this.cellSize)];
+  }
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { toast } from "sonner";
@@ -6,93 +6,183 @@ import CalibrationModal from "@/components/CalibrationModal";
 import ControlPanel from "@/components/ControlPanel";
 import AnalysisResults from "@/components/AnalysisResults";
 import GazePointer from "@/components/GazePointer";
+import ReplayControls from "@/components/ReplayControls";
+import FixationSettings from "@/components/FixationSettings";
+import SmoothingSettings from "@/components/SmoothingSettings";
+import DriftCorrectionSettings from "@/components/DriftCorrectionSettings";
+import DriftCorrectionOverlay from "@/components/DriftCorrectionOverlay";
+import WordMappingSettings from "@/components/WordMappingSettings";
+import TokenizationSettings from "@/components/TokenizationSettings";
+import CustomAoiSettings from "@/components/CustomAoiSettings";
+import AoiEditorOverlay, { AoiEditorMode } from "@/components/AoiEditorOverlay";
+import GazeSourceLoadStatus, { GazeSourceLoadState } from "@/components/GazeSourceLoadStatus";
 import TextDisplay from "@/components/TextDisplay";
 import geminiService, { AnalysisResult, GazeDataExport } from "@/services/geminiService";
-import gazeCloudService, { GazeData as GazeCloudGazeData } from "@/services/gazeCloudService";
+import gazeSourceManager from "@/services/gazeSourceManager";
+import gazeEventBus from "@/services/gazeEventBus";
+import { GazeData, GazeSourceStatus } from "@/services/gazeSource";
+import gazeTimingService, { GazeTimingStats } from "@/services/gazeTimingService";
+import gazeQualityService from "@/services/gazeQualityService";
+import samplingMonitorService, { SamplingSummary } from "@/services/samplingMonitorService";
 import wordTrackingService, { WordBounds } from "@/services/wordTrackingService";
+import fixationService from "@/services/fixationService";
+import saccadeService from "@/services/saccadeService";
+import gazeSmoothingService from "@/services/gazeSmoothingService";
+import gazePreprocessingService from "@/services/gazePreprocessingService";
+import driftCorrectionService from "@/services/driftCorrectionService";
+import viewportService from "@/services/viewportService";
+import customAoiService from "@/services/customAoiService";
+import type { TokenizerOptions } from "@/lib/tokenization";
 import { Eye } from "lucide-react";
 
-interface GazeData {
-  x: number;
-  y: number;
-  timestamp: number;
-  calibrated: boolean;
-}
-
 const Index = () => {
   const [isCalibrated, setIsCalibrated] = useState(false);
   const [isTracking, setIsTracking] = useState(false);
   const [showCalibration, setShowCalibration] = useState(false);
   const [gazePoints, setGazePoints] = useState<GazeData[]>([]);
-  const [gazeCloudLoaded, setGazeCloudLoaded] = useState(false);
+  const [sourceLoadState, setSourceLoadState] = useState<GazeSourceLoadState>("loading");
+  const [sourceLoadError, setSourceLoadError] = useState<string | null>(null);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [wordBounds, setWordBounds] = useState<WordBounds[]>([]);
   const [highlightedWordIndex, setHighlightedWordIndex] = useState<number>(-1);
+  const [activeGazeSourceId, setActiveGazeSourceId] = useState(
+    gazeSourceManager.getActiveSource().id
+  );
+  const [gazeSourceStatus, setGazeSourceStatus] = useState<GazeSourceStatus>({
+    state: "idle",
+  });
+  const [isTrackingLost, setIsTrackingLost] = useState(false);
+  const [timingStats, setTimingStats] = useState<GazeTimingStats | null>(null);
+  const [samplingSummary, setSamplingSummary] = useState<SamplingSummary | null>(null);
+  const [showDriftOverlay, setShowDriftOverlay] = useState(false);
+  const [aoiEditorMode, setAoiEditorMode] = useState<AoiEditorMode>("off");
+  const [showAoiOverlay, setShowAoiOverlay] = useState(true);
+  const [tokenizerOptions, setTokenizerOptions] = useState<TokenizerOptions>(() => {
+    const { locale, granularity } = wordTrackingService.getTokenizerOptions();
+    return { locale, granularity };
+  });
   const textContainerRef = useRef<HTMLDivElement>(null);
   const isTrackingRef = useRef(false);
 
-  // Initialize GazeCloudAPI
+  // Listen to the gaze event bus
   useEffect(() => {
-    const initGazeCloud = async () => {
-      try {
-        await gazeCloudService.initialize();
-        console.log("GazeCloudAPI initialized successfully");
-        setGazeCloudLoaded(true);
-
-        // Setup gaze result callback
-        gazeCloudService.setOnGazeResult((data: GazeCloudGazeData) => {
-          if (isTrackingRef.current && data.calibrated) {
-            setGazePoints((prev) => [...prev, data]);
-
-            // Track which word is being gazed at
-            const gazeWordBounds = wordTrackingService.findWordAtGazePosition(
-              data.x,
-              data.y
-            );
-
-            if (gazeWordBounds) {
-              setHighlightedWordIndex(gazeWordBounds.index);
-              wordTrackingService.trackGazeOnWord(gazeWordBounds, data.timestamp);
-            } else {
-              setHighlightedWordIndex(-1);
-            }
-          }
-        });
-
-        // Setup error handling
-        gazeCloudService.setOnError((error: string) => {
-          console.error("GazeCloud error:", error);
-          toast.error(`Eye tracking error: ${error}`);
-        });
-
-        gazeCloudService.setOnCameraDenied(() => {
-          toast.error("Camera access denied. Please allow camera access to use eye tracking.");
-        });
-      } catch (error) {
-        const errorMsg =
-          error instanceof Error ? error.message : "Failed to load GazeCloudAPI";
-        console.error(errorMsg);
-        toast.error(errorMsg);
-      }
-    };
+    const unsubscribers = [
+      gazeEventBus.subscribe("sample", (data: GazeData) => {
+        if (!isTrackingRef.current) return;
+
+        samplingMonitorService.recordSample(data.timestamp);
+
+        // Lost/uncalibrated samples become quality events instead of gaze points
+        gazeQualityService.recordSample(data);
+        setIsTrackingLost(gazeQualityService.isTrackingLost());
+
+        // Recording keeps the unfiltered samples, outliers included with their flags
+        if (data.calibrated) {
+          const layoutVersion = wordTrackingService.getLayoutVersion();
+          setGazePoints((prev) => [...prev, { ...data, layoutVersion }]);
+        }
+      }),
+
+      // Word hit-testing follows the smoothed stream, like the gaze pointer
+      gazeEventBus.subscribe("smoothedSample", (data: GazeData) => {
+        if (!isTrackingRef.current) return;
+
+        // Flagged outliers never count towards word metrics, but end the previous dwell
+        if (!data.calibrated || data.flags) {
+          wordTrackingService.trackUnmappedSample(data.timestamp);
+          return;
+        }
+
+        // Track which word is being gazed at, with the configured mapping strategy
+        const gazeWordBounds = wordTrackingService.trackGaze(
+          data.x,
+          data.y,
+          data.timestamp
+        );
+        setHighlightedWordIndex(gazeWordBounds ? gazeWordBounds.index : -1);
+      }),
+
+      // Setup error handling
+      gazeEventBus.subscribe("error", (error: string) => {
+        console.error("Gaze source error:", error);
+        toast.error(`Eye tracking error: ${error}`);
+      }),
+
+      gazeEventBus.subscribe("cameraDenied", () => {
+        toast.error("Camera access denied. Please allow camera access to use eye tracking.");
+      }),
+
+      gazeEventBus.subscribe("status", setGazeSourceStatus),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, []);
 
-    initGazeCloud();
+  // Initialize the active gaze source; on failure the header offers retry/fallback
+  const initializeActiveSource = useCallback(async () => {
+    const source = gazeSourceManager.getActiveSource();
+    setActiveGazeSourceId(source.id);
+    setSourceLoadState("loading");
+    setSourceLoadError(null);
+
+    try {
+      await gazeSourceManager.initialize();
+      console.log(`${source.label} initialized successfully`);
+      setSourceLoadState("ready");
+      return true;
+    } catch (error) {
+      const errorMsg =
+        error instanceof Error ? error.message : "Failed to load gaze source";
+      console.error(errorMsg);
+      setSourceLoadState("failed");
+      setSourceLoadError(errorMsg);
+      toast.error(errorMsg);
+      return false;
+    }
+  }, []);
+
+  useEffect(() => {
+    gazeSourceManager.selectFromUrl();
+    initializeActiveSource();
 
     return () => {
-      gazeCloudService.cleanup();
+      gazeSourceManager.cleanup();
     };
+  }, [initializeActiveSource]);
+
+  // Lexical frequencies for the word features, when VITE_WORD_FREQUENCY_URL is set
+  useEffect(() => {
+    wordTrackingService.loadFrequencyTable().catch((error) => {
+      console.error("Failed to load word frequency table:", error);
+      toast.error("Could not load the word frequency table");
+    });
   }, []);
 
+  // Refresh the latency/jitter and sample rate readouts while tracking
   useEffect(() => {
-    if (gazeCloudLoaded && !isCalibrated) {
+    if (!isTracking) return;
+
+    const refreshStreamStats = () => {
+      setTimingStats(gazeTimingService.getStats());
+      // Live rate up to now (local clock, like the sample timestamps), so stalls show as 0 Hz
+      setSamplingSummary(samplingMonitorService.getSummary(Date.now()));
+    };
+
+    refreshStreamStats();
+    const interval = setInterval(refreshStreamStats, 1000);
+    return () => clearInterval(interval);
+  }, [isTracking]);
+
+  useEffect(() => {
+    if (sourceLoadState === "ready" && !isCalibrated) {
       // Show calibration modal after a brief delay
       setTimeout(() => {
         setShowCalibration(true);
       }, 1000);
     }
-  }, [gazeCloudLoaded, isCalibrated]);
+  }, [sourceLoadState, isCalibrated]);
 
   const handleCalibrationComplete = () => {
     setIsCalibrated(true);
@@ -108,17 +198,64 @@ const Index = () => {
     setIsTracking(true);
     isTrackingRef.current = true;
     wordTrackingService.resetReadingData();
+    gazeQualityService.reset();
+    samplingMonitorService.reset();
+    gazeSmoothingService.reset();
+    gazePreprocessingService.reset();
+    setIsTrackingLost(false);
     setHighlightedWordIndex(-1);
     toast.success("Eye tracking started!");
   };
 
+  // Recorded samples refer to words of the old tokenization; drop them rather than mix index spaces
+  const handleTokenizerOptionsChange = (options: TokenizerOptions) => {
+    if (
+      options.locale === tokenizerOptions.locale &&
+      options.granularity === tokenizerOptions.granularity
+    ) {
+      return;
+    }
+    if (gazePoints.length > 0) {
+      setGazePoints([]);
+      setAnalysisResult(null);
+      setAnalysisError(null);
+      toast.info("Tokenization changed: the recorded session was cleared");
+    }
+    setTokenizerOptions(options);
+  };
+
   const handleStopTracking = () => {
     setIsTracking(false);
     isTrackingRef.current = false;
+    gazeQualityService.flush();
+    setIsTrackingLost(false);
     setHighlightedWordIndex(-1);
     toast.info("Eye tracking paused");
   };
 
+  const handleGazeSourceChange = async (id: string) => {
+    setIsTracking(false);
+    isTrackingRef.current = false;
+    setHighlightedWordIndex(-1);
+    setIsCalibrated(false);
+    setShowCalibration(false);
+
+    let source;
+    try {
+      source = gazeSourceManager.setActiveSource(id);
+    } catch (error) {
+      const errorMsg =
+        error instanceof Error ? error.message : "Failed to switch gaze source";
+      console.error(errorMsg);
+      toast.error(errorMsg);
+      return;
+    }
+
+    if (await initializeActiveSource()) {
+      toast.info(`Switched to ${source.label}. Please calibrate again.`);
+    }
+  };
+
   const handleRecalibrate = () => {
     setIsTracking(false);
     isTrackingRef.current = false;
@@ -128,21 +265,46 @@ const Index = () => {
 
 
 
+  // Custom AOIs follow the text whenever its words are re-extracted
+  const handleWordsExtracted = useCallback((words: WordBounds[]) => {
+    setWordBounds(words);
+    if (textContainerRef.current) {
+      customAoiService.updateLayout(textContainerRef.current);
+    }
+  }, []);
+
   const getExportData = (): GazeDataExport => {
     const textContainer = textContainerRef.current;
-    const bounds = textContainer?.getBoundingClientRect() || {
+    // Document coordinates, like the gaze samples and word bounds
+    const bounds = (textContainer &&
+      viewportService.rectToDocument(textContainer.getBoundingClientRect())) || {
       x: 0,
       y: 0,
       width: 0,
       height: 0,
     };
 
-    // Calculate time metrics for word reading data
-    if (gazePoints.length > 0) {
-      wordTrackingService.calculateTimeMetrics(gazePoints);
-    }
+    // Word metrics only use samples that preprocessing did not flag
+    const cleanGazePoints = gazePoints.filter((point) => !point.flags);
+
+    // Classify the recorded samples into fixations and attribute them to words
+    const fixationData = fixationService.detectFixations(cleanGazePoints);
+    const driftCorrection = driftCorrectionService.correct(fixationData.fixations);
+    wordTrackingService.applyFixations(
+      driftCorrection.enabled
+        ? fixationData.fixations.map((fixation, i) => ({
+            ...fixation,
+            wordIndex: driftCorrection.fixations[i].wordIndex,
+          }))
+        : fixationData.fixations
+    );
+    const saccadeData = saccadeService.detectSaccades(fixationData.fixations, cleanGazePoints);
 
     const wordReadingData = wordTrackingService.exportWordReadingData();
+    const customAoiData = customAoiService.computeMetrics(
+      fixationData.fixations,
+      gazePoints.length > 0 ? gazePoints[0].timestamp : 0
+    );
 
     return {
       metadata: {
@@ -160,17 +322,45 @@ const Index = () => {
           width: bounds.width,
           height: bounds.height,
         },
+        timing: gazeTimingService.getStats(),
+        quality: gazeQualityService.getSummary(),
+        sampling: samplingMonitorService.getSummary(),
+        smoothing: gazeSmoothingService.getSettings(),
+        preprocessing: gazePreprocessingService.getSummary(),
+        wordMapping: wordTrackingService.getMappingOptions(),
+        dwellGapThreshold: wordTrackingService.getDwellGapThreshold(),
+        frequencyTable: wordTrackingService.getFrequencyTableName(),
+        tokenization: wordTrackingService.getTokenizerOptions(),
+        fixationDetection: {
+          algorithm: fixationData.algorithm,
+          parameters: fixationData.parameters,
+        },
       },
       rawGazeData: gazePoints,
       wordReadingData: {
         wordReadings: wordReadingData.wordReadings,
         readingSequence: wordReadingData.readingSequence,
+        readingMeasures: wordReadingData.readingMeasures,
+        lexicalFeatures: wordReadingData.lexicalFeatures,
         totalUniqueWords: wordReadingData.totalUniqueWords,
         totalWordsInText: wordReadingData.totalUniqueWords,
       },
+      fixationData,
+      saccadeData,
+      driftCorrection,
+      layoutHistory: wordTrackingService.getLayoutHistory(),
+      aoiData: wordTrackingService.getAoiData(),
+      customAoiData,
     };
   };
 
+  // Before/after drift correction of the finished recording
+  const driftOverlay = useMemo(() => {
+    if (!showDriftOverlay || isTracking || gazePoints.length === 0) return null;
+    const fixationData = fixationService.detectFixations(gazePoints.filter((point) => !point.flags));
+    return driftCorrectionService.correct(fixationData.fixations);
+  }, [showDriftOverlay, isTracking, gazePoints]);
+
   const downloadJSON = (data: object, filename: string) => {
     const blob = new Blob([JSON.stringify(data, null, 2)], {
       type: "application/json",
@@ -202,13 +392,25 @@ const Index = () => {
         usage: "This data can be analyzed by LLMs to understand reading patterns, attention distribution, and user engagement with the text content.",
         fields: {
           metadata:
-            "Session information including duration, calibration status, and text container positioning",
+            "Session information including duration, calibration status, text container positioning, tracking quality (loss percentage and gaps where the tracker lost the face or was uncalibrated), and sampling statistics (effective rate, interval distribution, gaps in the sample stream)",
           rawGazeData:
-            "Array of gaze points with x, y coordinates and timestamps in milliseconds",
+            "Array of gaze points with x, y coordinates and timestamps in milliseconds. timestamp is the tracker timestamp mapped onto the local clock; trackerTimestamp and receivedAt are the raw tracker and receive times. flags marks outliers (offscreen, jump, blink) that are excluded from word metrics; layoutVersion is the entry of layoutHistory that was on screen",
           wordReadingData:
-            "Word-level reading metrics including time spent per word, frequency, and reading sequence",
+            "Word-level reading metrics including time spent per word, frequency, fixation count and duration, and reading sequence. lexicalFeatures has one row per word with its normalized form, punctuation, length, position in line and sentence and lexical frequency (metadata.frequencyTable). readingMeasures is a table over every word with first-fixation, single-fixation and gaze duration, go-past time, total reading time, skip flag and regressions in/out, computed from the (drift-corrected) fixations. Samples are mapped to words with the strategy in metadata.wordMapping",
+          fixationData:
+            "Fixations detected from the raw samples (algorithm and parameters included), each with start, end, duration, centroid and the word index under the centroid",
+          driftCorrection:
+            "Line-aware drift correction (chain algorithm): detected text lines and, per fixation, the original and corrected position, assigned line and word under each. When enabled, word fixation metrics use the corrected words",
+          saccadeData:
+            "Saccade table between consecutive fixations with amplitude (px, and degrees when the screen geometry is known), direction, duration, peak velocity and type (forward, regressive, return-sweep, vertical)",
+          layoutHistory:
+            "Every word layout of the session (re-extracted after resize, content, font or zoom changes) with version, timestamp, reason and word bounds",
+          aoiData:
+            "Areas of interest on four levels (word, line, sentence, paragraph) of the current layout, each with its word range, text, bounds, dwell time (ms), number of visits and the timestamp of the first entry",
+          customAoiData:
+            "Researcher-defined AOIs (drawn rectangles or selected page elements, bounds in document coordinates) with fixation-based dwell time, fixation count, entries and time to first fixation (ms from the session start), plus the counts of transitions between AOIs",
           textContainerBounds:
-            "Position and dimensions of the text content area for mapping gaze points to text regions",
+            "Position and dimensions of the text content area in document coordinates, for mapping gaze points to text regions",
         },
       },
     };
@@ -269,11 +471,16 @@ const Index = () => {
     }
   };
 
+  const fallbackSource = gazeSourceManager.getFallbackSource();
+
   return (
     <div className="min-h-screen bg-background">
       {/* Gaze Pointer Overlay */}
       <GazePointer isTracking={isTracking} />
 
+      {/* Drift correction before/after overlay */}
+      <DriftCorrectionOverlay result={driftOverlay} />
+
       {/* Header */}
       <header className="border-b border-border bg-card shadow-sm">
         <div className="container mx-auto px-6 py-4">
@@ -289,6 +496,20 @@ const Index = () => {
                    GazeCloud API Research Tool
                  </p>
             </div>
+            <div className="ml-auto">
+              <GazeSourceLoadStatus
+                state={sourceLoadState}
+                sourceLabel={gazeSourceManager.getActiveSource().label}
+                message={
+                  sourceLoadState === "failed" ? sourceLoadError : gazeSourceStatus.message
+                }
+                onRetry={initializeActiveSource}
+                fallbackLabel={fallbackSource?.label}
+                onFallback={
+                  fallbackSource ? () => handleGazeSourceChange(fallbackSource.id) : undefined
+                }
+              />
+            </div>
           </div>
         </div>
       </header>
@@ -302,7 +523,15 @@ const Index = () => {
               <TextDisplay
                 containerRef={textContainerRef}
                 highlightedWordIndex={highlightedWordIndex}
-                onWordsExtracted={setWordBounds}
+                onWordsExtracted={handleWordsExtracted}
+                tokenizerOptions={tokenizerOptions}
+                overlay={
+                  <AoiEditorOverlay
+                    containerRef={textContainerRef}
+                    mode={isTracking ? "off" : aoiEditorMode}
+                    visible={showAoiOverlay}
+                  />
+                }
               >
                 <div className="w-full">
                   <h2 className="mb-6 text-3xl font-bold text-foreground">
@@ -340,6 +569,52 @@ const Index = () => {
               onExportData={handleExportData}
               onAnalyzeWithAI={handleAnalyzeWithAI}
               isAnalyzing={isAnalyzing}
+              gazeSources={gazeSourceManager.getSources()}
+              activeGazeSourceId={activeGazeSourceId}
+              onGazeSourceChange={handleGazeSourceChange}
+              gazeSourceStatus={gazeSourceStatus}
+              timingStats={timingStats}
+              samplingSummary={samplingSummary}
+              isTrackingLost={isTrackingLost}
+            />
+
+            {/* Replay controls, only for the replay gaze source */}
+            {activeGazeSourceId === "replay" && (
+              <ReplayControls isTracking={isTracking} />
+            )}
+
+            {/* Fixation detector selection */}
+            <FixationSettings />
+
+            {/* Live smoothing for the pointer and word highlight */}
+            <SmoothingSettings />
+
+            {/* Gaze-to-word mapping strategy */}
+            <WordMappingSettings />
+
+            {/* Language-aware word/character tokenization */}
+            <TokenizationSettings
+              options={tokenizerOptions}
+              onOptionsChange={handleTokenizerOptionsChange}
+              segmenterSupported={wordTrackingService.getTokenizerOptions().segmenter}
+              disabled={isTracking}
+              hasRecording={gazePoints.length > 0}
+            />
+
+            {/* Line-aware drift correction of fixations */}
+            <DriftCorrectionSettings
+              showOverlay={showDriftOverlay}
+              onShowOverlayChange={setShowDriftOverlay}
+              canShowOverlay={!isTracking && gazePoints.length > 0}
+            />
+
+            {/* Researcher-defined areas of interest */}
+            <CustomAoiSettings
+              mode={isTracking ? "off" : aoiEditorMode}
+              onModeChange={setAoiEditorMode}
+              showOverlay={showAoiOverlay}
+              onShowOverlayChange={setShowAoiOverlay}
+              canEdit={!isTracking}
             />
 
             {/* Analysis Results Panel */}
@@ -0,0 +1,52 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const STORAGE_KEY = "eyeTracking.customAois";
+
+// The service loads the saved AOIs when the module is first imported
+const loadService = async (stored: string) => {
+  window.localStorage.setItem(STORAGE_KEY, stored);
+  vi.resetModules();
+  return (await import("./customAoiService")).default;
+};
+
+const region = { x: 10, y: 20, width: 100, height: 50 };
+
+describe("customAoiService saved AOIs", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    window.localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps well-formed AOIs and drops the rest", async () => {
+    const service = await loadService(
+      JSON.stringify([
+        { id: "a", name: "Title", source: "drawn", region, extra: true },
+        { id: "b", name: "Figure", source: "element", region, elementPath: [0, 2] },
+        { id: "a", name: "Duplicate id", source: "drawn", region },
+        { id: "c", name: "No region", source: "drawn" },
+        { id: "d", name: "Bad size", source: "drawn", region: { ...region, width: -1 } },
+        { id: "e", name: "Bad source", source: "circle", region },
+        { id: "f", name: "Bad path", source: "element", region, elementPath: ["0"] },
+        null,
+        "g",
+      ])
+    );
+
+    expect(service.getAois()).toEqual([
+      { id: "a", name: "Title", source: "drawn", region, bounds: region },
+      { id: "b", name: "Figure", source: "element", region, elementPath: [0, 2], bounds: region },
+    ]);
+    expect(console.warn).toHaveBeenCalledWith("[CustomAoi] Dropped 7 malformed saved AOIs");
+  });
+
+  it("starts empty when the saved value is not a list or not JSON", async () => {
+    expect((await loadService(JSON.stringify({ id: "a" }))).getAois()).toEqual([]);
+    expect((await loadService("{")).getAois()).toEqual([]);
+    expect(console.warn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Custom AOI Service
+ * User-defined areas of interest over the text: rectangles drawn by the
+ * researcher or DOM elements (a heading, a figure) selected on the page.
+ * Regions are kept relative to the text container so they follow it when the
+ * page layout changes, and are saved in localStorage between sessions.
+ */
+
+import type { Rect } from "@/lib/coordinates";
+import {
+  AoiTransition,
+  CustomAoiMetrics,
+  computeCustomAoiMetrics,
+} from "@/lib/customAois";
+import type { Fixation } from "./fixationService";
+import viewportService from "./viewportService";
+
+export type CustomAoiSource = "drawn" | "element";
+
+export interface CustomAoi {
+  id: string;
+  name: string;
+  source: CustomAoiSource;
+  region: Rect; // container space
+  elementPath?: number[]; // child indexes from the container, for element AOIs
+  bounds: Rect; // document space, as of the last layout update
+}
+
+export interface CustomAoiWithMetrics extends Omit<CustomAoi, "region">, CustomAoiMetrics {}
+
+export interface CustomAoiExport {
+  aois: CustomAoiWithMetrics[];
+  transitions: AoiTransition[];
+}
+
+export type CustomAoiListener = (aois: CustomAoi[]) => void;
+
+const STORAGE_KEY = "eyeTracking.customAois";
+
+type StoredAoi = Omit<CustomAoi, "bounds">;
+
+const isRect = (value: unknown): value is Rect => {
+  const rect = value as Partial<Rect> | null;
+  return (
+    typeof rect === "object" &&
+    rect !== null &&
+    [rect.x, rect.y, rect.width, rect.height].every(Number.isFinite) &&
+    rect.width >= 0 &&
+    rect.height >= 0
+  );
+};
+
+/**
+ * Well-formed AOIs from a parsed localStorage value; anything else is dropped
+ */
+function parseStoredAois(value: unknown): StoredAoi[] {
+  if (!Array.isArray(value)) {
+    console.warn("[CustomAoi] Ignoring saved AOIs: not a list");
+    return [];
+  }
+
+  const aois: StoredAoi[] = [];
+  const ids = new Set<string>();
+  for (const aoi of value) {
+    const elementPath: unknown = aoi?.elementPath;
+    const validPath =
+      elementPath === undefined ||
+      (Array.isArray(elementPath) &&
+        elementPath.every((index) => Number.isInteger(index) && index >= 0));
+    if (
+      typeof aoi?.id !== "string" ||
+      ids.has(aoi.id) ||
+      typeof aoi.name !== "string" ||
+      (aoi.source !== "drawn" && aoi.source !== "element") ||
+      !isRect(aoi.region) ||
+      !validPath
+    ) {
+      continue;
+    }
+    ids.add(aoi.id);
+    aois.push({
+      id: aoi.id,
+      name: aoi.name,
+      source: aoi.source,
+      region: { x: aoi.region.x, y: aoi.region.y, width: aoi.region.width, height: aoi.region.height },
+      ...(elementPath !== undefined && { elementPath: elementPath as number[] }),
+    });
+  }
+
+  if (aois.length < value.length) {
+    console.warn(`[CustomAoi] Dropped ${value.length - aois.length} malformed saved AOIs`);
+  }
+  return aois;
+}
+
+class CustomAoiService {
+  private aois: CustomAoi[] = [];
+  private container: HTMLElement | null = null;
+  private listeners: Set<CustomAoiListener> = new Set();
+  private idCounter = 0;
+
+  constructor() {
+    this.aois = this.load().map((aoi) => ({ ...aoi, bounds: { ...aoi.region } }));
+  }
+
+  /**
+   * Get notified when AOIs are added, changed or moved; returns the unsubscribe function
+   */
+  subscribe(listener: CustomAoiListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getAois(): CustomAoi[] {
+    return this.aois.map((aoi) => ({ ...aoi }));
+  }
+
+  /**
+   * Add a drawn rectangle, given in document space
+   */
+  addRectangle(name: string, bounds: Rect): CustomAoi | null {
+    if (!this.container) return null;
+    const origin = viewportService.getElementOrigin(this.container);
+    return this.add({
+      id: this.nextId(),
+      name,
+      source: "drawn",
+      region: { ...bounds, x: bounds.x - origin.x, y: bounds.y - origin.y },
+    });
+  }
+
+  /**
+   * Add a DOM element inside the text container; its AOI is re-measured on layout changes
+   */
+  addElement(name: string, element: Element): CustomAoi | null {
+    if (!this.container) return null;
+    const elementPath = this.pathTo(element);
+    if (!elementPath) return null;
+    return this.add({
+      id: this.nextId(),
+      name,
+      source: "element",
+      region: this.measure(element),
+      elementPath,
+    });
+  }
+
+  rename(id: string, name: string): void {
+    this.aois = this.aois.map((aoi) => (aoi.id === id ? { ...aoi, name } : aoi));
+    this.changed();
+  }
+
+  remove(id: string): void {
+    this.aois = this.aois.filter((aoi) => aoi.id !== id);
+    this.changed();
+  }
+
+  clear(): void {
+    this.aois = [];
+    this.changed();
+  }
+
+  /**
+   * Re-measure element AOIs and move every AOI with the text container.
+   * Call after the word bounds are extracted.
+   */
+  updateLayout(container: HTMLElement): void {
+    this.container = container;
+    this.aois = this.aois.map((aoi) => {
+      const element = aoi.elementPath && this.resolve(aoi.elementPath);
+      return element ? { ...aoi, region: this.measure(element) } : aoi;
+    });
+    this.changed();
+  }
+
+  /**
+   * Per-AOI fixation metrics and AOI transitions; time to first fixation is
+   * counted from `sessionStart`
+   */
+  computeMetrics(fixations: Fixation[], sessionStart: number): CustomAoiExport {
+    const { metrics, transitions } = computeCustomAoiMetrics(this.aois, fixations, sessionStart);
+    return {
+      aois: this.aois.map(({ region: _region, ...aoi }) => ({
+        ...aoi,
+        ...metrics.get(aoi.id)!,
+      })),
+      transitions,
+    };
+  }
+
+  /**
+   * Unique id; crypto.randomUUID() is unavailable outside secure contexts (plain http on a LAN)
+   */
+  private nextId(): string {
+    this.idCounter++;
+    return `aoi-${Date.now().toString(36)}-${this.idCounter}`;
+  }
+
+  private add(aoi: StoredAoi): CustomAoi {
+    const added = { ...aoi, bounds: this.toDocument(aoi.region) };
+    this.aois = [...this.aois, added];
+    this.changed();
+    return { ...added };
+  }
+
+  private changed(): void {
+    this.aois = this.aois.map((aoi) => ({ ...aoi, bounds: this.toDocument(aoi.region) }));
+    this.save();
+    const aois = this.getAois();
+    this.listeners.forEach((listener) => listener(aois));
+  }
+
+  private toDocument(region: Rect): Rect {
+    if (!this.container) return { ...region };
+    const origin = viewportService.getElementOrigin(this.container);
+    return { ...region, x: region.x + origin.x, y: region.y + origin.y };
+  }
+
+  private measure(element: Element): Rect {
+    const bounds = viewportService.rectToDocument(element.getBoundingClientRect());
+    const origin = viewportService.getElementOrigin(this.container!);
+    return { ...bounds, x: bounds.x - origin.x, y: bounds.y - origin.y };
+  }
+
+  private pathTo(element: Element): number[] | null {
+    const path: number[] = [];
+    let current: Element | null = element;
+    while (current && current !== this.container) {
+      const parent: Element | null = current.parentElement;
+      if (!parent) return null;
+      path.unshift(Array.prototype.indexOf.call(parent.children, current));
+      current = parent;
+    }
+    return current ? path : null;
+  }
+
+  private resolve(path: number[]): Element | null {
+    let current: Element | null = this.container;
+    for (const index of path) {
+      current = current?.children[index] ?? null;
+    }
+    return current;
+  }
+
+  private load(): StoredAoi[] {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      return stored ? parseStoredAois(JSON.parse(stored)) : [];
+    } catch (error) {
+      console.warn("[CustomAoi] Could not load saved AOIs:", error);
+      return [];
+    }
+  }
+
+  private save(): void {
+    try {
+      const stored: StoredAoi[] = this.aois.map(({ bounds: _bounds, ...aoi }) => aoi);
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.error("[CustomAoi] Could not save AOIs:", error);
+    }
+  }
+}
+
+export default new CustomAoiService();
@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeLayout, installFakeLayout, uninstallFakeLayout } from "@/test/fakeLayout";
+import driftCorrectionService from "./driftCorrectionService";
+import type { Fixation } from "./fixationService";
+import wordTrackingService from "./wordTrackingService";
+
+const fixation = (index: number, x: number, y: number, layoutVersion: number): Fixation => ({
+  index,
+  layoutVersion,
+  wordIndex: null,
+  word: null,
+  start: index * 300,
+  end: index * 300 + 200,
+  duration: 200,
+  sampleCount: 10,
+  firstSampleIndex: index * 10,
+  lastSampleIndex: index * 10 + 9,
+  x,
+  y,
+});
+
+describe("driftCorrectionService", () => {
+  beforeAll(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    installFakeLayout();
+  });
+
+  afterAll(() => {
+    uninstallFakeLayout();
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    document.body.innerHTML = "<div><p>alpha beta gamma</p></div>";
+    wordTrackingService.reset();
+    const container = document.querySelector("div")!;
+
+    // Version 1: alpha x 0-50, beta x 60-100, gamma x 110-160, line at y 100-120
+    Object.assign(fakeLayout, { charWidth: 10, top: 100 });
+    wordTrackingService.extractWordBounds(container);
+    // Version 2 (e.g. after a resize): alpha x 0-100, beta x 120-200, line at y 300-320
+    Object.assign(fakeLayout, { charWidth: 20, top: 300 });
+    wordTrackingService.extractWordBounds(container, "resize");
+  });
+
+  it("corrects each fixation against the layout it was recorded on", () => {
+    expect(wordTrackingService.getLayoutVersion()).toBe(2);
+
+    const result = driftCorrectionService.correct([
+      // Drifted 20 px below the version 1 line; beta there, alpha in version 2
+      fixation(0, 80, 130, 1),
+      fixation(1, 130, 300, 2),
+    ]);
+
+    expect(result.fixations.map((f) => f.layoutVersion)).toEqual([1, 2]);
+    expect(result.fixations[0].correctedY).toBe(110);
+    expect(result.fixations[0].wordIndex).toBe(1);
+    expect(result.fixations[1].correctedY).toBe(310);
+    expect(result.fixations[1].wordIndex).toBe(1);
+    // Chains of different layouts are never merged
+    expect(result.fixations[0].chainIndex).not.toBe(result.fixations[1].chainIndex);
+    // Reported lines are the current layout's
+    expect(result.lines).toHaveLength(1);
+  });
+
+  it("uses the current layout for fixations without a layout version", () => {
+    const result = driftCorrectionService.correct([{ ...fixation(0, 80, 330, 2), layoutVersion: null }]);
+
+    expect(result.fixations[0].layoutVersion).toBe(2);
+    expect(result.fixations[0].correctedY).toBe(310);
+    expect(result.fixations[0].wordIndex).toBe(0);
+  });
+});
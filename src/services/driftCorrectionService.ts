@@ -0,0 +1,140 @@
+/**
+ * Drift Correction Service
+ * Snaps fixations onto the text lines (post hoc) to undo the vertical drift
+ * of webcam tracking, keeping the original positions next to the corrected ones
+ */
+
+import {
+  ChainParameters,
+  DEFAULT_CHAIN_PARAMETERS,
+  TextLine,
+  correctDriftChain,
+  groupWordsIntoLines,
+} from "@/lib/driftCorrection";
+import type { Fixation } from "./fixationService";
+import wordTrackingService from "./wordTrackingService";
+
+export interface CorrectedFixation {
+  fixationIndex: number;
+  layoutVersion: number; // layout whose lines and words the fixation was corrected against
+  originalX: number;
+  originalY: number;
+  correctedX: number;
+  correctedY: number;
+  lineIndex: number;
+  chainIndex: number;
+  originalWordIndex: number | null;
+  wordIndex: number | null; // word under the corrected position
+}
+
+export interface DriftCorrectionResult {
+  enabled: boolean; // whether word metrics use the corrected positions
+  algorithm: "chain";
+  parameters: ChainParameters;
+  lines: TextLine[]; // lines of the current layout
+  fixations: CorrectedFixation[];
+}
+
+class DriftCorrectionService {
+  private enabled = true;
+  private parameters: ChainParameters = { ...DEFAULT_CHAIN_PARAMETERS };
+
+  /**
+   * Choose whether word metrics use drift-corrected fixations
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Override chain parameters
+   */
+  configure(parameters: Partial<ChainParameters>): void {
+    this.parameters = { ...this.parameters, ...parameters };
+  }
+
+  getParameters(): ChainParameters {
+    return { ...this.parameters };
+  }
+
+  /**
+   * Assign each fixation to a text line and re-map it to the word at the corrected position.
+   * Fixations are corrected against the layout they were recorded on: each run of
+   * fixations with the same layout version gets that layout's lines and word boxes.
+   */
+  correct(fixations: Fixation[]): DriftCorrectionResult {
+    const currentVersion = wordTrackingService.getLayoutVersion();
+    const layouts = new Map(
+      wordTrackingService.getLayoutHistory().map((layout) => [layout.version, layout.words])
+    );
+    const lines = groupWordsIntoLines(wordTrackingService.getWordBounds());
+
+    const corrected: CorrectedFixation[] = [];
+    let runStart = 0;
+    let chainOffset = 0;
+    while (runStart < fixations.length) {
+      const layoutVersion = fixations[runStart].layoutVersion ?? currentVersion;
+      let runEnd = runStart + 1;
+      while (
+        runEnd < fixations.length &&
+        (fixations[runEnd].layoutVersion ?? currentVersion) === layoutVersion
+      ) {
+        runEnd++;
+      }
+
+      const run = fixations.slice(runStart, runEnd);
+      const runLines =
+        layoutVersion === currentVersion
+          ? lines
+          : groupWordsIntoLines(layouts.get(layoutVersion) ?? []);
+      const assignments = correctDriftChain(run, runLines, this.parameters);
+
+      run.forEach((fixation, i) => {
+        const { lineIndex, correctedY, chainIndex } = assignments[i] ?? {
+          lineIndex: -1,
+          correctedY: fixation.y,
+          chainIndex: -1,
+        };
+        const wordBounds = wordTrackingService.findWordAtGazePosition(
+          fixation.x,
+          correctedY,
+          layoutVersion
+        );
+        corrected.push({
+          fixationIndex: fixation.index,
+          layoutVersion,
+          originalX: fixation.x,
+          originalY: fixation.y,
+          correctedX: fixation.x,
+          correctedY,
+          lineIndex,
+          chainIndex: chainIndex >= 0 ? chainIndex + chainOffset : -1,
+          originalWordIndex: fixation.wordIndex,
+          wordIndex: wordBounds ? wordBounds.index : null,
+        });
+      });
+
+      chainOffset += new Set(assignments.map((assignment) => assignment.chainIndex)).size;
+      runStart = runEnd;
+    }
+
+    const moved = corrected.filter((f) => f.wordIndex !== f.originalWordIndex).length;
+    console.log(
+      `[DriftCorrection] ${fixations.length} fixations on ${lines.length} lines, ${moved} re-mapped to another word`
+    );
+
+    return {
+      enabled: this.enabled,
+      algorithm: "chain",
+      parameters: this.getParameters(),
+      lines,
+      fixations: corrected,
+    };
+  }
+}
+
+export default new DriftCorrectionService();
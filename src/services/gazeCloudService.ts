@@ -3,6 +3,19 @@
  * Integration with GazeCloud eye-tracking API
  */
 
+import type {
+  CalibrationCompleteCallback,
+  CameraDeniedCallback,
+  ErrorCallback,
+  GazeData,
+  GazeSampleCallback,
+  GazeSource,
+  GazeSourceStatus,
+  GazeTrackingState,
+  StatusChangeCallback,
+} from "./gazeSource";
+import { loadScript } from "@/lib/loadScript";
+
 // Type definitions for GazeCloudAPI
 declare global {
   interface Window {
@@ -25,65 +38,114 @@ export interface GazeCloudData {
   time: number; // timestamp
 }
 
-export interface GazeData {
-  x: number;
-  y: number;
-  timestamp: number;
-  calibrated: boolean;
+export type { GazeData };
+
+export interface GazeCloudLoaderOptions {
+  scriptUrl: string;
+  timeout: number; // ms per attempt
+  retries: number;
+  retryDelay: number; // ms before the first retry, doubled for each further one
+}
+
+const numberFromEnv = (value: string | undefined, fallback: number) =>
+  value !== undefined && Number.isFinite(Number(value)) ? Number(value) : fallback;
+
+// Override with VITE_GAZECLOUD_* env variables, e.g. to self-host a pinned copy of the script
+export const DEFAULT_GAZECLOUD_LOADER_OPTIONS: GazeCloudLoaderOptions = {
+  scriptUrl:
+    import.meta.env.VITE_GAZECLOUD_SCRIPT_URL || "https://api.gazerecorder.com/GazeCloudAPI.js",
+  timeout: numberFromEnv(import.meta.env.VITE_GAZECLOUD_LOAD_TIMEOUT, 15000),
+  retries: numberFromEnv(import.meta.env.VITE_GAZECLOUD_LOAD_RETRIES, 2),
+  retryDelay: 1000,
+};
+
+/**
+ * Map GazeCloud's numeric state onto the tracking state
+ */
+function toTrackingState(state: number): GazeTrackingState {
+  if (state === 0) return "valid";
+  if (state === -1) return "lost";
+  return "uncalibrated";
 }
 
-type GazeResultCallback = (data: GazeData) => void;
-type CalibrationCompleteCallback = () => void;
-type ErrorCallback = (error: string) => void;
-type CameraDeniedCallback = () => void;
+class GazeCloudService implements GazeSource {
+  readonly id = "gazecloud";
+  readonly label = "GazeCloud (webcam)";
 
-class GazeCloudService {
   private isInitialized = false;
+  private initPromise: Promise<void> | null = null;
+  private loaderOptions: GazeCloudLoaderOptions = { ...DEFAULT_GAZECLOUD_LOADER_OPTIONS };
   private isTracking = false;
-  private gazeResultCallback: GazeResultCallback | null = null;
+  private sampleCallback: GazeSampleCallback | null = null;
   private calibrationCompleteCallback: CalibrationCompleteCallback | null = null;
   private errorCallback: ErrorCallback | null = null;
   private cameraDeniedCallback: CameraDeniedCallback | null = null;
+  private statusChangeCallback: StatusChangeCallback | null = null;
+
+  /**
+   * Point the loader at another copy of GazeCloudAPI.js (e.g. a self-hosted, pinned one)
+   * or change timeout/retry behaviour. Only affects the next initialize().
+   */
+  configure(options: Partial<GazeCloudLoaderOptions>): void {
+    this.loaderOptions = { ...this.loaderOptions, ...options };
+  }
+
+  getLoaderOptions(): GazeCloudLoaderOptions {
+    return { ...this.loaderOptions };
+  }
 
   /**
    * Initialize GazeCloudAPI
-   * Loads the library and sets up callbacks
+   * Loads the library (with timeout and retries) and sets up callbacks.
+   * Concurrent calls share one load; a failed load can be retried by calling again.
    */
   async initialize(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (this.isInitialized) {
-        resolve();
-        return;
-      }
+    if (this.isInitialized) return;
+    if (this.initPromise) return this.initPromise;
 
-      // Check if already loaded
-      if (window.GazeCloudAPI) {
-        this.setupCallbacks();
-        this.isInitialized = true;
-        resolve();
-        return;
+    this.initPromise = this.loadLibrary().finally(() => {
+      this.initPromise = null;
+    });
+    return this.initPromise;
+  }
+
+  private async loadLibrary(): Promise<void> {
+    // Check if already loaded
+    if (!window.GazeCloudAPI) {
+      const { scriptUrl, timeout, retries, retryDelay } = this.loaderOptions;
+
+      try {
+        await loadScript(scriptUrl, {
+          timeout,
+          retries,
+          retryDelay,
+          isLoaded: () => !!window.GazeCloudAPI,
+          onAttempt: (attempt, totalAttempts) => {
+            this.setStatus({
+              state: attempt > 1 ? "reconnecting" : "connecting",
+              message: `Loading GazeCloudAPI (attempt ${attempt}/${totalAttempts})`,
+            });
+          },
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error("Failed to load GazeCloudAPI:", message);
+        this.setStatus({ state: "disconnected", message });
+        throw new Error(`Failed to load GazeCloudAPI: ${message}`);
       }
 
-      // Load GazeCloudAPI script
-      const script = document.createElement("script");
-      script.src = "https://api.gazerecorder.com/GazeCloudAPI.js";
-      script.async = true;
-
-      script.onload = () => {
-        console.log("GazeCloudAPI loaded successfully");
-        this.setupCallbacks();
-        this.isInitialized = true;
-        resolve();
-      };
-
-      script.onerror = () => {
-        const error = "Failed to load GazeCloudAPI";
-        console.error(error);
-        reject(new Error(error));
-      };
-
-      document.head.appendChild(script);
-    });
+      console.log(`GazeCloudAPI loaded successfully from ${scriptUrl}`);
+    }
+
+    this.setupCallbacks();
+    this.isInitialized = true;
+    this.setStatus({ state: "idle" });
+  }
+
+  private setStatus(status: GazeSourceStatus): void {
+    if (this.statusChangeCallback) {
+      this.statusChangeCallback(status);
+    }
   }
 
   /**
@@ -98,23 +160,19 @@ class GazeCloudService {
     // Handle gaze data results
     window.GazeCloudAPI.OnResult = (GazeData: GazeCloudData) => {
       if (this.isTracking) {
+        const receivedAt = Date.now();
         const data: GazeData = {
           x: GazeData.docX,
           y: GazeData.docY,
-          timestamp: Date.now(),
+          timestamp: receivedAt,
           calibrated: GazeData.state === 0, // Only valid if state is 0
+          state: toTrackingState(GazeData.state),
+          trackerTimestamp: GazeData.time,
+          receivedAt,
         };
 
-        // Emit custom event for UI components (like GazePointer)
-        window.dispatchEvent(
-          new CustomEvent("gazeData", {
-            detail: { x: GazeData.docX, y: GazeData.docY, calibrated: data.calibrated },
-          })
-        );
-
-        // Only record if calibrated
-        if (data.calibrated && this.gazeResultCallback) {
-          this.gazeResultCallback(data);
+        if (this.sampleCallback) {
+          this.sampleCallback(data);
         }
       }
     };
@@ -147,7 +205,7 @@ class GazeCloudService {
   /**
    * Start eye tracking
    */
-  startTracking(): void {
+  start(): void {
     if (!window.GazeCloudAPI) {
       console.warn("GazeCloudAPI not initialized");
       return;
@@ -161,7 +219,7 @@ class GazeCloudService {
   /**
    * Stop eye tracking
    */
-  stopTracking(): void {
+  stop(): void {
     if (!window.GazeCloudAPI) {
       console.warn("GazeCloudAPI not initialized");
       return;
@@ -175,31 +233,38 @@ class GazeCloudService {
   /**
    * Set callback for gaze results
    */
-  setOnGazeResult(callback: GazeResultCallback): void {
-    this.gazeResultCallback = callback;
+  onSample(callback: GazeSampleCallback): void {
+    this.sampleCallback = callback;
   }
 
   /**
    * Set callback for calibration complete
    */
-  setOnCalibrationComplete(callback: CalibrationCompleteCallback): void {
+  onCalibrationComplete(callback: CalibrationCompleteCallback): void {
     this.calibrationCompleteCallback = callback;
   }
 
   /**
    * Set callback for errors
    */
-  setOnError(callback: ErrorCallback): void {
+  onError(callback: ErrorCallback): void {
     this.errorCallback = callback;
   }
 
   /**
    * Set callback for camera denied
    */
-  setOnCameraDenied(callback: CameraDeniedCallback): void {
+  onCameraDenied(callback: CameraDeniedCallback): void {
     this.cameraDeniedCallback = callback;
   }
 
+  /**
+   * Set callback for script loading status
+   */
+  onStatusChange(callback: StatusChangeCallback): void {
+    this.statusChangeCallback = callback;
+  }
+
   /**
    * Check if tracking is active
    */
@@ -228,7 +293,7 @@ class GazeCloudService {
    */
   cleanup(): void {
     if (this.isTracking) {
-      this.stopTracking();
+      this.stop();
     }
   }
 }
@@ -0,0 +1,77 @@
+/**
+ * Gaze Event Bus
+ * Typed publish/subscribe for gaze samples, calibration, errors and status,
+ * so any number of components can listen without replacing each other's callbacks
+ */
+
+import type { GazeData, GazeSourceStatus } from "./gazeSource";
+
+export interface GazeEventMap {
+  sample: GazeData;
+  smoothedSample: GazeData; // same sample after the live smoothing filter
+  calibrationComplete: void;
+  error: string;
+  cameraDenied: void;
+  status: GazeSourceStatus;
+}
+
+export type GazeEventType = keyof GazeEventMap;
+
+export type GazeEventListener<K extends GazeEventType> = (payload: GazeEventMap[K]) => void;
+
+type ListenerRegistry = {
+  [K in GazeEventType]: Set<GazeEventListener<K>>;
+};
+
+class GazeEventBus {
+  private listeners: ListenerRegistry = {
+    sample: new Set(),
+    smoothedSample: new Set(),
+    calibrationComplete: new Set(),
+    error: new Set(),
+    cameraDenied: new Set(),
+    status: new Set(),
+  };
+
+  /**
+   * Subscribe to an event; returns the matching unsubscribe function
+   */
+  subscribe<K extends GazeEventType>(type: K, listener: GazeEventListener<K>): () => void {
+    this.listeners[type].add(listener);
+    return () => this.unsubscribe(type, listener);
+  }
+
+  /**
+   * Remove a listener added with subscribe()
+   */
+  unsubscribe<K extends GazeEventType>(type: K, listener: GazeEventListener<K>): void {
+    this.listeners[type].delete(listener);
+  }
+
+  /**
+   * Deliver an event to every listener of its type.
+   * A throwing listener is logged and does not stop the others.
+   */
+  emit<K extends GazeEventType>(type: K, payload: GazeEventMap[K]): void {
+    // Copy so listeners can unsubscribe while being called
+    for (const listener of Array.from(this.listeners[type])) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`[GazeEventBus] "${type}" listener failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Number of listeners for an event type
+   */
+  listenerCount(type: GazeEventType): number {
+    return this.listeners[type].size;
+  }
+}
+
+// Export singleton instance
+export const gazeEventBus = new GazeEventBus();
+
+export default gazeEventBus;
@@ -0,0 +1,149 @@
+/**
+ * Gaze Preprocessing Service
+ * Flags off-screen samples, impossible jumps and samples disturbed by blinks
+ * (short tracking-loss bursts). Flagged samples are kept in the recording but
+ * excluded from word hit-testing and word metrics.
+ */
+
+import type { GazeData, GazeSampleFlag } from "./gazeSource";
+import viewportService from "./viewportService";
+
+export interface PreprocessingParameters {
+  maxVelocity: number; // px/s; faster jumps from the last accepted sample are flagged
+  jumpRecoverySamples: number; // after this many jumps in a row the new position is accepted
+  maxBlinkDuration: number; // ms; shorter tracking-loss bursts count as blinks
+  blinkMargin: number; // ms after a blink whose samples are flagged
+}
+
+export const DEFAULT_PREPROCESSING_PARAMETERS: PreprocessingParameters = {
+  maxVelocity: 40000,
+  jumpRecoverySamples: 3,
+  maxBlinkDuration: 500,
+  blinkMargin: 100,
+};
+
+export interface BlinkEvent {
+  start: number; // timestamp of the first lost sample
+  end: number; // timestamp of the first valid sample after it
+  duration: number; // ms
+}
+
+export interface PreprocessingSummary {
+  parameters: PreprocessingParameters;
+  flaggedSamples: Record<GazeSampleFlag, number>;
+  blinks: BlinkEvent[];
+}
+
+class GazePreprocessingService {
+  private parameters: PreprocessingParameters = { ...DEFAULT_PREPROCESSING_PARAMETERS };
+  private lastAccepted: GazeData | null = null;
+  private jumpRun = 0;
+  private lossStart: number | null = null;
+  private blinkUntil: number | null = null;
+  private blinks: BlinkEvent[] = [];
+  private flaggedSamples: Record<GazeSampleFlag, number> = {
+    offscreen: 0,
+    jump: 0,
+    blink: 0,
+  };
+
+  /**
+   * Override preprocessing parameters
+   */
+  configure(parameters: Partial<PreprocessingParameters>): void {
+    this.parameters = { ...this.parameters, ...parameters };
+  }
+
+  getParameters(): PreprocessingParameters {
+    return { ...this.parameters };
+  }
+
+  /**
+   * Flag one sample; returns the sample with `flags` set when any apply
+   */
+  process(sample: GazeData): GazeData {
+    if (sample.state === "lost") {
+      this.lossStart ??= sample.timestamp;
+      return sample;
+    }
+    this.closeLossBurst(sample.timestamp);
+    if (sample.state !== "valid") return sample;
+
+    const flags: GazeSampleFlag[] = [];
+    if (this.isOffscreen(sample)) {
+      flags.push("offscreen");
+    } else if (this.isJump(sample)) {
+      flags.push("jump");
+    }
+    if (this.blinkUntil !== null && sample.timestamp <= this.blinkUntil) {
+      flags.push("blink");
+    }
+
+    if (!flags.includes("jump")) {
+      this.jumpRun = 0;
+      if (!flags.includes("offscreen")) {
+        this.lastAccepted = sample;
+      }
+    }
+
+    if (flags.length === 0) return sample;
+    flags.forEach((flag) => this.flaggedSamples[flag]++);
+    return { ...sample, flags };
+  }
+
+  /**
+   * Flag counts and detected blinks for the export metadata
+   */
+  getSummary(): PreprocessingSummary {
+    return {
+      parameters: this.getParameters(),
+      flaggedSamples: { ...this.flaggedSamples },
+      blinks: this.blinks.map((blink) => ({ ...blink })),
+    };
+  }
+
+  /**
+   * Reset for a new tracking session or source
+   */
+  reset(): void {
+    this.lastAccepted = null;
+    this.jumpRun = 0;
+    this.lossStart = null;
+    this.blinkUntil = null;
+    this.blinks = [];
+    this.flaggedSamples = { offscreen: 0, jump: 0, blink: 0 };
+  }
+
+  private isOffscreen({ x, y }: GazeData): boolean {
+    if (!Number.isFinite(x) || !Number.isFinite(y) || x < 0 || y < 0) return true;
+    return !viewportService.isInViewport({ x, y });
+  }
+
+  private isJump(sample: GazeData): boolean {
+    const previous = this.lastAccepted;
+    if (!previous) return false;
+
+    const dt = Math.max(1, sample.timestamp - previous.timestamp);
+    const velocity = (Math.hypot(sample.x - previous.x, sample.y - previous.y) / dt) * 1000;
+    if (velocity <= this.parameters.maxVelocity) return false;
+
+    // The gaze really moved if it stays at the new position
+    this.jumpRun++;
+    return this.jumpRun < this.parameters.jumpRecoverySamples;
+  }
+
+  private closeLossBurst(timestamp: number): void {
+    if (this.lossStart === null) return;
+    const duration = timestamp - this.lossStart;
+    if (duration <= this.parameters.maxBlinkDuration) {
+      this.blinks.push({ start: this.lossStart, end: timestamp, duration });
+      this.blinkUntil = timestamp + this.parameters.blinkMargin;
+    }
+    this.lossStart = null;
+    // Positions from before the loss say nothing about jumps after it
+    this.lastAccepted = null;
+    this.jumpRun = 0;
+  }
+}
+
+export default new GazePreprocessingService();
@@ -0,0 +1,150 @@
+/**
+ * Gaze Quality Service
+ * Turns tracking-lost and uncalibrated samples into quality events with
+ * start/end intervals, so exports can tell reader pauses from tracking loss
+ */
+
+import type { GazeData, GazeTrackingState } from "./gazeSource";
+
+export type GazeQualityEventType = Exclude<GazeTrackingState, "valid">;
+
+export interface GazeQualityEvent {
+  type: GazeQualityEventType;
+  start: number; // timestamp of the first affected sample
+  end: number; // timestamp of the first sample after the interval (or the last affected one)
+  duration: number; // ms
+  sampleCount: number;
+}
+
+export interface GazeQualitySummary {
+  totalSamples: number;
+  validSamples: number;
+  lostSamples: number;
+  uncalibratedSamples: number;
+  lossPercentage: number; // % of session time with tracking lost
+  uncalibratedPercentage: number; // % of session time uncalibrated
+  gaps: GazeQualityEvent[];
+}
+
+class GazeQualityService {
+  private events: GazeQualityEvent[] = [];
+  private openEvent: GazeQualityEvent | null = null;
+  private sampleCounts: Record<GazeTrackingState, number> = {
+    valid: 0,
+    lost: 0,
+    uncalibrated: 0,
+  };
+  private firstTimestamp: number | null = null;
+  private lastTimestamp: number | null = null;
+
+  /**
+   * Record one sample; returns the event that is currently open, if any
+   */
+  recordSample(data: GazeData): GazeQualityEvent | null {
+    const { state, timestamp } = data;
+    this.sampleCounts[state]++;
+    if (this.firstTimestamp === null) {
+      this.firstTimestamp = timestamp;
+    }
+    this.lastTimestamp = timestamp;
+
+    if (this.openEvent && this.openEvent.type !== state) {
+      this.closeOpenEvent(timestamp);
+    }
+
+    if (state !== "valid") {
+      if (!this.openEvent) {
+        this.openEvent = {
+          type: state,
+          start: timestamp,
+          end: timestamp,
+          duration: 0,
+          sampleCount: 0,
+        };
+      }
+      this.openEvent.end = timestamp;
+      this.openEvent.duration = timestamp - this.openEvent.start;
+      this.openEvent.sampleCount++;
+    }
+
+    return this.openEvent;
+  }
+
+  /**
+   * Close the open event at the last sample (e.g. when tracking is paused)
+   */
+  flush(): void {
+    if (this.openEvent && this.lastTimestamp !== null) {
+      this.closeOpenEvent(this.lastTimestamp);
+    }
+  }
+
+  private closeOpenEvent(timestamp: number): void {
+    if (!this.openEvent) return;
+    this.openEvent.end = timestamp;
+    this.openEvent.duration = timestamp - this.openEvent.start;
+    this.events.push(this.openEvent);
+    this.openEvent = null;
+  }
+
+  /**
+   * Check whether tracking is lost right now
+   */
+  isTrackingLost(): boolean {
+    return this.openEvent?.type === "lost";
+  }
+
+  /**
+   * All quality events so far, including the one still open
+   */
+  getEvents(): GazeQualityEvent[] {
+    const events = this.events.map((event) => ({ ...event }));
+    if (this.openEvent) {
+      events.push({ ...this.openEvent });
+    }
+    return events;
+  }
+
+  /**
+   * Loss percentages and gap list for the export metadata
+   */
+  getSummary(): GazeQualitySummary {
+    const gaps = this.getEvents();
+    const sessionDuration =
+      this.firstTimestamp !== null && this.lastTimestamp !== null
+        ? this.lastTimestamp - this.firstTimestamp
+        : 0;
+
+    const percentageOf = (type: GazeQualityEventType) => {
+      if (sessionDuration <= 0) return 0;
+      const total = gaps
+        .filter((gap) => gap.type === type)
+        .reduce((sum, gap) => sum + gap.duration, 0);
+      return Math.round((total / sessionDuration) * 1000) / 10;
+    };
+
+    return {
+      totalSamples:
+        this.sampleCounts.valid + this.sampleCounts.lost + this.sampleCounts.uncalibrated,
+      validSamples: this.sampleCounts.valid,
+      lostSamples: this.sampleCounts.lost,
+      uncalibratedSamples: this.sampleCounts.uncalibrated,
+      lossPercentage: percentageOf("lost"),
+      uncalibratedPercentage: percentageOf("uncalibrated"),
+      gaps,
+    };
+  }
+
+  /**
+   * Reset for a new tracking session
+   */
+  reset(): void {
+    this.events = [];
+    this.openEvent = null;
+    this.sampleCounts = { valid: 0, lost: 0, uncalibrated: 0 };
+    this.firstTimestamp = null;
+    this.lastTimestamp = null;
+  }
+}
+
+export default new GazeQualityService();
@@ -0,0 +1,131 @@
+/**
+ * Gaze Smoothing Service
+ * Filters the live sample stream used for the gaze pointer and word
+ * hit-testing; recorded samples stay unfiltered
+ */
+
+import {
+  DEFAULT_KALMAN_PARAMETERS,
+  DEFAULT_MOVING_MEDIAN_PARAMETERS,
+  DEFAULT_ONE_EURO_PARAMETERS,
+  GazeFilter,
+  KalmanFilter,
+  KalmanParameters,
+  MovingMedianFilter,
+  MovingMedianParameters,
+  OneEuroFilter,
+  OneEuroParameters,
+} from "@/lib/gazeFilters";
+import type { GazeData } from "./gazeSource";
+
+export type SmoothingFilterType = "none" | "oneEuro" | "kalman" | "median";
+
+export interface SmoothingFilterParameters {
+  none: Record<string, never>;
+  oneEuro: OneEuroParameters;
+  kalman: KalmanParameters;
+  median: MovingMedianParameters;
+}
+
+export const SMOOTHING_FILTER_LABELS: Record<SmoothingFilterType, string> = {
+  none: "Off (raw samples)",
+  oneEuro: "One Euro filter",
+  kalman: "Kalman filter",
+  median: "Moving median",
+};
+
+export interface SmoothingSettings {
+  filter: SmoothingFilterType;
+  parameters: SmoothingFilterParameters[SmoothingFilterType];
+}
+
+class GazeSmoothingService {
+  private filterType: SmoothingFilterType = "oneEuro";
+  private parameters: SmoothingFilterParameters = {
+    none: {},
+    oneEuro: { ...DEFAULT_ONE_EURO_PARAMETERS },
+    kalman: { ...DEFAULT_KALMAN_PARAMETERS },
+    median: { ...DEFAULT_MOVING_MEDIAN_PARAMETERS },
+  };
+  private filter: GazeFilter | null = this.createFilter();
+
+  /**
+   * Select the filter applied to the live stream
+   */
+  setFilter(filterType: SmoothingFilterType): void {
+    this.filterType = filterType;
+    this.filter = this.createFilter();
+    console.log(`[Smoothing] Filter: ${SMOOTHING_FILTER_LABELS[filterType]}`);
+  }
+
+  getFilter(): SmoothingFilterType {
+    return this.filterType;
+  }
+
+  /**
+   * Override parameters of one filter
+   */
+  configure<F extends SmoothingFilterType>(
+    filterType: F,
+    parameters: Partial<SmoothingFilterParameters[F]>
+  ): void {
+    this.parameters[filterType] = { ...this.parameters[filterType], ...parameters };
+    if (filterType === this.filterType) {
+      this.filter = this.createFilter();
+    }
+  }
+
+  getParameters<F extends SmoothingFilterType>(filterType: F): SmoothingFilterParameters[F] {
+    return { ...this.parameters[filterType] };
+  }
+
+  /**
+   * The active filter and its parameters, for the export metadata
+   */
+  getSettings(): SmoothingSettings {
+    return {
+      filter: this.filterType,
+      parameters: this.getParameters(this.filterType),
+    };
+  }
+
+  /**
+   * Smooth one live sample. Lost and uncalibrated samples pass through
+   * unchanged and restart the filter, so it never blends across a gap.
+   */
+  apply(sample: GazeData): GazeData {
+    if (!this.filter) return sample;
+    if (sample.state !== "valid" || !sample.calibrated) {
+      this.filter.reset();
+      return sample;
+    }
+
+    // Outliers would drag the filter state along; pass them through untouched
+    if (sample.flags) return sample;
+
+    const { x, y } = this.filter.filter({ x: sample.x, y: sample.y }, sample.timestamp);
+    return { ...sample, x, y };
+  }
+
+  /**
+   * Forget the filter history, e.g. for a new session or source
+   */
+  reset(): void {
+    this.filter?.reset();
+  }
+
+  private createFilter(): GazeFilter | null {
+    switch (this.filterType) {
+      case "oneEuro":
+        return new OneEuroFilter(this.parameters.oneEuro);
+      case "kalman":
+        return new KalmanFilter(this.parameters.kalman);
+      case "median":
+        return new MovingMedianFilter(this.parameters.median);
+      default:
+        return null;
+    }
+  }
+}
+
+export default new GazeSmoothingService();
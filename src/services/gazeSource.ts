@@ -0,0 +1,112 @@
+/**
+ * Gaze Source
+ * Common contract for anything that produces gaze samples (GazeCloud, simulators, replays, ...)
+ */
+
+/**
+ * Tracker state of a sample
+ * valid: usable gaze; lost: face/eye tracking lost; uncalibrated: gaze not calibrated yet
+ */
+export type GazeTrackingState = "valid" | "lost" | "uncalibrated";
+
+/**
+ * Preprocessing flags of a sample; flagged samples are kept but excluded from word metrics
+ * offscreen: outside the viewport; jump: physiologically impossible jump;
+ * blink: right after a short tracking-loss burst
+ */
+export type GazeSampleFlag = "offscreen" | "jump" | "blink";
+
+export interface GazeData {
+  x: number;
+  y: number;
+  timestamp: number; // local clock ms; derived from trackerTimestamp when the source provides one
+  calibrated: boolean; // true only for state "valid"
+  state: GazeTrackingState;
+  trackerTimestamp?: number; // ms on the tracker's own clock
+  receivedAt?: number; // local clock ms when the sample reached the page
+  flags?: GazeSampleFlag[]; // set by preprocessing, only when non-empty
+  layoutVersion?: number; // word layout on screen when the sample was recorded
+}
+
+export type GazeSampleCallback = (data: GazeData) => void;
+export type CalibrationCompleteCallback = () => void;
+export type ErrorCallback = (error: string) => void;
+export type CameraDeniedCallback = () => void;
+
+export type GazeSourceConnectionState =
+  | "idle"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "disconnected";
+
+export interface GazeSourceStatus {
+  state: GazeSourceConnectionState;
+  message?: string;
+}
+
+export type StatusChangeCallback = (status: GazeSourceStatus) => void;
+
+export interface GazeSource {
+  /** Stable identifier, used for selection (e.g. `?gazeSource=<id>`) */
+  readonly id: string;
+  /** Human readable name shown in the UI */
+  readonly label: string;
+
+  /**
+   * Prepare the source (load libraries, open devices, ...).
+   * Must be safe to call more than once.
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Start producing samples. Sources that need calibration start it here
+   * and report completion through `onCalibrationComplete`.
+   */
+  start(): void;
+
+  /**
+   * Stop producing samples
+   */
+  stop(): void;
+
+  /**
+   * Set callback for every sample, calibrated or not
+   */
+  onSample(callback: GazeSampleCallback): void;
+
+  /**
+   * Set callback for calibration complete
+   */
+  onCalibrationComplete(callback: CalibrationCompleteCallback): void;
+
+  /**
+   * Set callback for errors
+   */
+  onError(callback: ErrorCallback): void;
+
+  /**
+   * Set callback for camera denied (only camera based sources)
+   */
+  onCameraDenied?(callback: CameraDeniedCallback): void;
+
+  /**
+   * Set callback for connection status changes (only sources with a connection)
+   */
+  onStatusChange?(callback: StatusChangeCallback): void;
+
+  /**
+   * Enable click-based recalibration (only sources that support it)
+   */
+  enableClickRecalibration?(enable: boolean): void;
+
+  /**
+   * Check if the source is currently producing samples
+   */
+  isTrackingActive(): boolean;
+
+  /**
+   * Clean up - stop producing samples and release resources
+   */
+  cleanup(): void;
+}
@@ -0,0 +1,204 @@
+/**
+ * Gaze Source Manager
+ * Keeps a registry of gaze sources and forwards to the active one,
+ * so the UI never talks to a concrete tracker directly.
+ * Everything the active source reports is published on the gaze event bus,
+ * samples flagged by preprocessing, both raw and smoothed for display.
+ */
+
+import gazeCloudService from "./gazeCloudService";
+import simulatedGazeSource from "./simulatedGazeSource";
+import replayGazeSource from "./replayGazeSource";
+import websocketGazeSource from "./websocketGazeSource";
+import gazeTimingService from "./gazeTimingService";
+import gazeSmoothingService from "./gazeSmoothingService";
+import gazePreprocessingService from "./gazePreprocessingService";
+import gazeEventBus from "./gazeEventBus";
+import type { GazeData, GazeSource } from "./gazeSource";
+
+export const GAZE_SOURCE_QUERY_PARAM = "gazeSource";
+
+// Source offered when the active one fails to load
+export const FALLBACK_GAZE_SOURCE_ID: string =
+  import.meta.env.VITE_GAZE_FALLBACK_SOURCE || "simulated";
+
+class GazeSourceManager {
+  private sources: Map<string, GazeSource> = new Map();
+  private activeSource: GazeSource;
+
+  constructor(defaultSource: GazeSource) {
+    this.register(defaultSource);
+    this.activeSource = defaultSource;
+    this.bindSource(defaultSource);
+  }
+
+  /**
+   * Register a gaze source so it can be selected later
+   */
+  register(source: GazeSource): void {
+    this.sources.set(source.id, source);
+  }
+
+  /**
+   * Get all registered sources
+   */
+  getSources(): GazeSource[] {
+    return Array.from(this.sources.values());
+  }
+
+  /**
+   * Get the source samples are currently read from
+   */
+  getActiveSource(): GazeSource {
+    return this.activeSource;
+  }
+
+  /**
+   * Get the source to fall back to when the active one fails, if it is a different one
+   */
+  getFallbackSource(): GazeSource | null {
+    const fallback = this.sources.get(FALLBACK_GAZE_SOURCE_ID);
+    return fallback && fallback !== this.activeSource ? fallback : null;
+  }
+
+  /**
+   * Switch to another registered source.
+   * The previous source is cleaned up; the new one still needs `initialize()`.
+   */
+  setActiveSource(id: string): GazeSource {
+    const source = this.sources.get(id);
+    if (!source) {
+      throw new Error(`Unknown gaze source: ${id}`);
+    }
+    if (source === this.activeSource) return source;
+
+    this.activeSource.cleanup();
+    gazeTimingService.reset();
+    gazeSmoothingService.reset();
+    gazePreprocessingService.reset();
+    this.activeSource = source;
+    this.bindSource(source);
+    // Sources without a connection never report status, reset the last one
+    gazeEventBus.emit("status", { state: "idle" });
+    console.log(`[GazeSource] Active source: ${source.label}`);
+    return source;
+  }
+
+  /**
+   * Pick the source named by the `?gazeSource=` URL flag, if any
+   */
+  selectFromUrl(search: string = window.location.search): GazeSource {
+    const id = new URLSearchParams(search).get(GAZE_SOURCE_QUERY_PARAM);
+    if (id && this.sources.has(id)) {
+      return this.setActiveSource(id);
+    }
+    if (id) {
+      console.warn(`[GazeSource] Ignoring unknown source "${id}" from URL`);
+    }
+    return this.activeSource;
+  }
+
+  /**
+   * Publish the source's callbacks on the gaze event bus.
+   * Inactive sources may still fire late callbacks, those are dropped.
+   */
+  private bindSource(source: GazeSource): void {
+    const isActive = () => source === this.activeSource;
+
+    source.onSample((sample) => {
+      if (isActive()) {
+        const flagged = gazePreprocessingService.process(this.applyTrackerClock(sample));
+        gazeEventBus.emit("sample", flagged);
+        gazeEventBus.emit("smoothedSample", gazeSmoothingService.apply(flagged));
+      }
+    });
+
+    source.onCalibrationComplete(() => {
+      if (isActive()) {
+        gazeEventBus.emit("calibrationComplete", undefined);
+      }
+    });
+
+    source.onError((error) => {
+      if (isActive()) {
+        gazeEventBus.emit("error", error);
+      }
+    });
+
+    source.onCameraDenied?.(() => {
+      if (isActive()) {
+        gazeEventBus.emit("cameraDenied", undefined);
+      }
+    });
+
+    source.onStatusChange?.((status) => {
+      if (isActive()) {
+        gazeEventBus.emit("status", status);
+      }
+    });
+  }
+
+  /**
+   * Re-stamp samples that carry a tracker timestamp onto the local clock
+   * through the estimated clock offset, so durations follow the device clock
+   */
+  private applyTrackerClock(data: GazeData): GazeData {
+    if (data.trackerTimestamp === undefined || data.receivedAt === undefined) {
+      return data;
+    }
+    return {
+      ...data,
+      timestamp: gazeTimingService.record(data.trackerTimestamp, data.receivedAt),
+    };
+  }
+
+  /**
+   * Initialize the active source
+   */
+  initialize(): Promise<void> {
+    return this.activeSource.initialize();
+  }
+
+  /**
+   * Start the active source (and its calibration, if it has one)
+   */
+  start(): void {
+    this.activeSource.start();
+  }
+
+  /**
+   * Stop the active source
+   */
+  stop(): void {
+    this.activeSource.stop();
+  }
+
+  /**
+   * Enable click-based recalibration, if the active source supports it
+   */
+  enableClickRecalibration(enable: boolean): void {
+    this.activeSource.enableClickRecalibration?.(enable);
+  }
+
+  /**
+   * Check if the active source is producing samples
+   */
+  isTrackingActive(): boolean {
+    return this.activeSource.isTrackingActive();
+  }
+
+  /**
+   * Clean up the active source
+   */
+  cleanup(): void {
+    this.activeSource.cleanup();
+  }
+}
+
+// Export singleton instance
+export const gazeSourceManager = new GazeSourceManager(gazeCloudService);
+gazeSourceManager.register(simulatedGazeSource);
+gazeSourceManager.register(replayGazeSource);
+gazeSourceManager.register(websocketGazeSource);
+
+export default gazeSourceManager;
@@ -0,0 +1,93 @@
+/**
+ * Gaze Timing Service
+ * Estimates the offset between the tracker clock and the local clock and
+ * measures pipeline latency/jitter from per-sample tracker and receive timestamps
+ */
+
+const STATS_WINDOW_SIZE = 120; // samples used for the live latency/jitter readout
+
+export interface GazeTimingStats {
+  clockOffset: number | null; // ms to add to tracker time to get local time
+  // Mean/max of (receivedAt - trackerTimestamp). This is the true pipeline latency
+  // when the tracker shares the page's wall clock (GazeCloud, simulator); for
+  // trackers with their own clock it also contains the clock difference.
+  latencyMean: number | null; // ms
+  latencyMax: number | null; // ms
+  jitter: number | null; // ms, standard deviation of the delay
+  sampleCount: number;
+}
+
+class GazeTimingService {
+  private clockOffset: number | null = null;
+  private recentSamples: Array<{ trackerTimestamp: number; receivedAt: number }> = [];
+  private sampleCount = 0;
+
+  /**
+   * Record a sample's tracker and receive timestamps and return its
+   * tracker timestamp mapped onto the local clock.
+   *
+   * The offset is the smallest observed (receivedAt - trackerTimestamp): the
+   * least delayed sample is the best estimate of the pure clock difference, and
+   * keeping it constant means durations between samples come from the tracker clock.
+   */
+  record(trackerTimestamp: number, receivedAt: number): number {
+    const rawDelay = receivedAt - trackerTimestamp;
+    if (this.clockOffset === null || rawDelay < this.clockOffset) {
+      this.clockOffset = rawDelay;
+    }
+
+    this.sampleCount++;
+    this.recentSamples.push({ trackerTimestamp, receivedAt });
+    if (this.recentSamples.length > STATS_WINDOW_SIZE) {
+      this.recentSamples.shift();
+    }
+
+    return trackerTimestamp + this.clockOffset;
+  }
+
+  /**
+   * Map a tracker timestamp onto the local clock
+   */
+  toLocalTime(trackerTimestamp: number): number {
+    return trackerTimestamp + (this.clockOffset ?? 0);
+  }
+
+  /**
+   * Latency and jitter over the most recent samples
+   */
+  getStats(): GazeTimingStats {
+    if (this.clockOffset === null || this.recentSamples.length === 0) {
+      return {
+        clockOffset: null,
+        latencyMean: null,
+        latencyMax: null,
+        jitter: null,
+        sampleCount: this.sampleCount,
+      };
+    }
+
+    const delays = this.recentSamples.map((s) => s.receivedAt - s.trackerTimestamp);
+    const mean = delays.reduce((sum, d) => sum + d, 0) / delays.length;
+    const variance =
+      delays.reduce((sum, d) => sum + (d - mean) ** 2, 0) / delays.length;
+
+    return {
+      clockOffset: Math.round(this.clockOffset),
+      latencyMean: Math.round(mean * 10) / 10,
+      latencyMax: Math.round(Math.max(...delays) * 10) / 10,
+      jitter: Math.round(Math.sqrt(variance) * 10) / 10,
+      sampleCount: this.sampleCount,
+    };
+  }
+
+  /**
+   * Forget the offset estimate (e.g. when switching to another tracker)
+   */
+  reset(): void {
+    this.clockOffset = null;
+    this.recentSamples = [];
+    this.sampleCount = 0;
+  }
+}
+
+export default new GazeTimingService();
@@ -3,6 +3,21 @@
  * Requires VITE_GEMINI_API_KEY environment variable
  */
 
+import type { GazeTimingStats } from "./gazeTimingService";
+import type { GazeQualitySummary } from "./gazeQualityService";
+import type { SamplingSummary } from "./samplingMonitorService";
+import type { FixationDetectionResult, FixationDetectionSettings } from "./fixationService";
+import type { SaccadeDetectionResult } from "./saccadeService";
+import type { SmoothingSettings } from "./gazeSmoothingService";
+import type { PreprocessingSummary } from "./gazePreprocessingService";
+import type { GazeSampleFlag } from "./gazeSource";
+import type { DriftCorrectionResult } from "./driftCorrectionService";
+import type { CustomAoiExport } from "./customAoiService";
+import type { WordMappingOptions } from "@/lib/wordMapping";
+import type { LexicalFeatures } from "@/lib/lexicalFeatures";
+import type { TokenizerOptions } from "@/lib/tokenization";
+import type { AoiData, LayoutVersion, WordReadingMeasures } from "./wordTrackingService";
+
 export interface WordReadingData {
   word: string;
   wordIndex: number;
@@ -11,6 +26,8 @@ export interface WordReadingData {
   firstGazeTime: number;
   lastGazeTime: number;
   frequency: number;
+  fixationCount: number;
+  fixationDuration: number;
 }
 
 export interface WordReadingEvent {
@@ -31,18 +48,40 @@ export interface GazeDataExport {
       width: number;
       height: number;
     };
+    timing?: GazeTimingStats;
+    quality?: GazeQualitySummary;
+    sampling?: SamplingSummary;
+    smoothing?: SmoothingSettings;
+    preprocessing?: PreprocessingSummary;
+    wordMapping?: WordMappingOptions;
+    dwellGapThreshold?: number;
+    frequencyTable?: string | null;
+    tokenization?: TokenizerOptions & { segmenter: boolean };
+    fixationDetection?: FixationDetectionSettings;
   };
   rawGazeData: Array<{
     x: number;
     y: number;
     timestamp: number;
+    trackerTimestamp?: number;
+    receivedAt?: number;
+    flags?: GazeSampleFlag[];
+    layoutVersion?: number;
   }>;
   wordReadingData?: {
     wordReadings: WordReadingData[];
     readingSequence: WordReadingEvent[];
+    readingMeasures?: WordReadingMeasures[];
+    lexicalFeatures?: LexicalFeatures[];
     totalUniqueWords: number;
     totalWordsInText: number;
   };
+  fixationData?: FixationDetectionResult;
+  saccadeData?: SaccadeDetectionResult;
+  driftCorrection?: DriftCorrectionResult;
+  layoutHistory?: LayoutVersion[];
+  aoiData?: AoiData;
+  customAoiData?: CustomAoiExport;
 }
 
 export interface AnalysisResult {
@@ -93,7 +132,7 @@ ${gazeDataExport.wordReadingData.wordReadings
   .slice(0, 10)
   .map(
     (w, i) =>
-      `  ${i + 1}. "${w.word}" - ${w.gazePointCount} gaze points, ${w.gazeTotalTime}ms, read ${w.frequency} time(s)`
+      `  ${i + 1}. "${w.word}" - ${Math.round(w.gazePointCount * 10) / 10} gaze points, ${w.gazeTotalTime}ms, ${w.fixationCount} fixation(s), read ${w.frequency} time(s)`
   )
   .join("\n")}
 
@@ -105,6 +144,45 @@ ${gazeDataExport.wordReadingData.readingSequence
 `
       : "";
 
+    const fixations = gazeDataExport.fixationData?.fixations;
+    const fixationSection = fixations
+      ? `- Fixations: ${fixations.length}${fixations.length > 0 ? ` (mean duration ${Math.round(fixations.reduce((sum, f) => sum + f.duration, 0) / fixations.length)}ms)` : ""}
+`
+      : "";
+
+    const saccadeCounts = gazeDataExport.saccadeData?.counts;
+    const saccadeSection = saccadeCounts
+      ? `- Saccades: ${saccadeCounts.forward} forward, ${saccadeCounts.regressive} regressive (re-reading), ${saccadeCounts["return-sweep"]} return sweeps to the next line, ${saccadeCounts.vertical} other line changes
+`
+      : "";
+
+    const paragraphs = gazeDataExport.aoiData?.paragraph;
+    const paragraphSection =
+      paragraphs && paragraphs.length > 1
+        ? `- Dwell per paragraph: ${paragraphs
+            .map((p) => `P${p.index + 1} ${(p.dwellTime / 1000).toFixed(1)}s (${p.visits} visits)`)
+            .join(", ")}
+`
+        : "";
+
+    const customAois = gazeDataExport.customAoiData?.aois;
+    const customAoiSection =
+      customAois && customAois.length > 0
+        ? `- Researcher-defined regions: ${customAois
+            .map(
+              (aoi) =>
+                `"${aoi.name}" ${(aoi.dwellTime / 1000).toFixed(1)}s (${aoi.entries} entries${aoi.timeToFirstFixation !== null ? `, first looked at after ${(aoi.timeToFirstFixation / 1000).toFixed(1)}s` : ", never looked at"})`
+            )
+            .join(", ")}
+`
+        : "";
+
+    const quality = gazeDataExport.metadata.quality;
+    const qualitySection = quality
+      ? `- Tracking lost: ${quality.lossPercentage}% of the session (${quality.gaps.filter((g) => g.type === "lost").length} gaps) - missing data in these gaps is tracking loss, not the reader pausing
+`
+      : "";
+
     const analysisPrompt = `You are an eye-tracking data analyst. Analyze the provided gaze data strictly based on actual coordinates, timestamps, and word-level readings. Do not speculate or make assumptions beyond what the data shows.
 
 READER TASK: Reading for comprehension - The user was instructed to read the text naturally and understand the content.
@@ -112,7 +190,7 @@ READER TASK: Reading for comprehension - The user was instructed to read the tex
 GAZE DATA SUMMARY:
 - Total gaze points: ${gazeDataExport.metadata.totalGazePoints}
 - Session duration: ${gazeDataExport.metadata.sessionDuration}ms
-- Text container area: X: ${gazeDataExport.metadata.textContainerBounds.x}px, Y: ${gazeDataExport.metadata.textContainerBounds.y}px, Width: ${gazeDataExport.metadata.textContainerBounds.width}px, Height: ${gazeDataExport.metadata.textContainerBounds.height}px
+${fixationSection}${saccadeSection}${paragraphSection}${customAoiSection}${qualitySection}- Text container area: X: ${gazeDataExport.metadata.textContainerBounds.x}px, Y: ${gazeDataExport.metadata.textContainerBounds.y}px, Width: ${gazeDataExport.metadata.textContainerBounds.width}px, Height: ${gazeDataExport.metadata.textContainerBounds.height}px
 
 ${readableText ? `TEXT CONTENT:\n${readableText}\n\n` : ""}
 
@@ -0,0 +1,320 @@
+/**
+ * Replay Gaze Source
+ * Plays back the rawGazeData of an exported session as a live gaze stream
+ */
+
+import type {
+  CalibrationCompleteCallback,
+  ErrorCallback,
+  GazeData,
+  GazeSampleCallback,
+  GazeSource,
+  GazeTrackingState,
+} from "./gazeSource";
+
+const TRACKING_STATES: GazeTrackingState[] = ["valid", "lost", "uncalibrated"];
+
+export type ReplaySpeed = 1 | 2 | 10 | "step";
+
+export const REPLAY_SPEEDS: ReplaySpeed[] = [1, 2, 10, "step"];
+
+export interface ReplayState {
+  fileName: string | null;
+  totalSamples: number;
+  position: number; // index of the next sample to emit
+  isPlaying: boolean;
+  speed: ReplaySpeed;
+}
+
+type ReplayStateListener = (state: ReplayState) => void;
+
+/**
+ * Parse an exported session file (see handleExportData) into gaze samples
+ */
+export function parseReplayFile(text: string): GazeData[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Replay file is not valid JSON");
+  }
+
+  const rawGazeData = (parsed as { rawGazeData?: unknown })?.rawGazeData;
+  if (!Array.isArray(rawGazeData)) {
+    throw new Error("Replay file has no rawGazeData array");
+  }
+
+  const samples: GazeData[] = [];
+  for (const point of rawGazeData) {
+    if (
+      typeof point?.x !== "number" ||
+      typeof point?.y !== "number" ||
+      typeof point?.timestamp !== "number"
+    ) {
+      continue;
+    }
+    // Older exports only contain calibrated samples and omit the flag
+    const calibrated: boolean = point.calibrated ?? true;
+    samples.push({
+      x: point.x,
+      y: point.y,
+      timestamp: point.timestamp,
+      calibrated,
+      state: TRACKING_STATES.includes(point.state)
+        ? point.state
+        : calibrated
+        ? "valid"
+        : "uncalibrated",
+      trackerTimestamp:
+        typeof point.trackerTimestamp === "number" ? point.trackerTimestamp : undefined,
+      receivedAt: typeof point.receivedAt === "number" ? point.receivedAt : undefined,
+    });
+  }
+
+  if (samples.length === 0) {
+    throw new Error("Replay file contains no usable gaze samples");
+  }
+
+  return samples.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+class ReplayGazeSource implements GazeSource {
+  readonly id = "replay";
+  readonly label = "Replay (exported session)";
+
+  private samples: GazeData[] = [];
+  private fileName: string | null = null;
+  private position = 0;
+  private speed: ReplaySpeed = 1;
+  private isTracking = false;
+  private isPlaying = false;
+  private playbackTimer: ReturnType<typeof setTimeout> | null = null;
+  private calibrationTimer: ReturnType<typeof setTimeout> | null = null;
+  // Recorded time -> local clock, fixed for one pass through the recording
+  private replayClockOffset: number | null = null;
+  private stateListeners: Set<ReplayStateListener> = new Set();
+  private sampleCallback: GazeSampleCallback | null = null;
+  private calibrationCompleteCallback: CalibrationCompleteCallback | null = null;
+  private errorCallback: ErrorCallback | null = null;
+
+  /**
+   * Load samples to replay; rewinds to the start
+   */
+  load(samples: GazeData[], fileName: string | null = null): void {
+    this.pause();
+    this.samples = samples;
+    this.fileName = fileName;
+    this.position = 0;
+    this.replayClockOffset = null;
+    console.log(`[Replay] Loaded ${samples.length} samples from ${fileName ?? "memory"}`);
+    this.notifyStateChange();
+  }
+
+  /**
+   * Read and load an exported session file
+   */
+  async loadFile(file: File): Promise<void> {
+    const text = await file.text();
+    this.load(parseReplayFile(text), file.name);
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to load up front, samples come from loadFile()
+  }
+
+  /**
+   * Recorded data is already calibrated, so calibration completes immediately,
+   * also when recalibrating a started source. Playback itself is driven by play()/step().
+   */
+  start(): void {
+    this.isTracking = true;
+
+    if (this.calibrationTimer) {
+      clearTimeout(this.calibrationTimer);
+    }
+    this.calibrationTimer = setTimeout(() => {
+      this.calibrationTimer = null;
+      if (this.calibrationCompleteCallback) {
+        this.calibrationCompleteCallback();
+      }
+    }, 0);
+  }
+
+  stop(): void {
+    this.pause();
+    this.isTracking = false;
+    if (this.calibrationTimer) {
+      clearTimeout(this.calibrationTimer);
+      this.calibrationTimer = null;
+    }
+  }
+
+  /**
+   * Play from the current position at the selected speed
+   */
+  play(): void {
+    if (this.samples.length === 0) {
+      if (this.errorCallback) {
+        this.errorCallback("No replay file loaded");
+      }
+      return;
+    }
+    if (!this.isTracking) {
+      console.warn("Replay gaze source not started");
+      return;
+    }
+    if (this.speed === "step" || this.isPlaying) return;
+
+    if (this.position >= this.samples.length) {
+      this.position = 0;
+      this.replayClockOffset = null;
+    }
+
+    this.isPlaying = true;
+    this.notifyStateChange();
+    this.emitNext();
+  }
+
+  pause(): void {
+    if (this.playbackTimer) {
+      clearTimeout(this.playbackTimer);
+      this.playbackTimer = null;
+    }
+    if (this.isPlaying) {
+      this.isPlaying = false;
+      this.notifyStateChange();
+    }
+  }
+
+  /**
+   * Emit exactly one sample (stepwise replay)
+   */
+  step(): void {
+    if (!this.isTracking || this.position >= this.samples.length) return;
+    this.pause();
+    this.emit(this.samples[this.position]);
+    this.position++;
+    this.notifyStateChange();
+  }
+
+  /**
+   * Rewind to the first sample
+   */
+  rewind(): void {
+    this.pause();
+    this.position = 0;
+    this.replayClockOffset = null;
+    this.notifyStateChange();
+  }
+
+  setSpeed(speed: ReplaySpeed): void {
+    this.speed = speed;
+    if (speed === "step") {
+      this.pause();
+    } else if (this.isPlaying && this.playbackTimer) {
+      // Reschedule the pending sample with the new speed
+      clearTimeout(this.playbackTimer);
+      this.playbackTimer = null;
+      this.scheduleNext();
+    }
+    this.notifyStateChange();
+  }
+
+  private emitNext(): void {
+    if (!this.isPlaying) return;
+
+    this.emit(this.samples[this.position]);
+    this.position++;
+
+    if (this.position >= this.samples.length) {
+      console.log("[Replay] Reached end of recording");
+      this.isPlaying = false;
+      this.notifyStateChange();
+      return;
+    }
+
+    this.scheduleNext();
+    this.notifyStateChange();
+  }
+
+  /**
+   * Wait for the recorded inter-sample interval, scaled by speed
+   */
+  private scheduleNext(): void {
+    if (this.speed === "step") return;
+
+    const previous = this.samples[this.position - 1];
+    const next = this.samples[this.position];
+    const interval = previous ? Math.max(0, next.timestamp - previous.timestamp) : 0;
+
+    this.playbackTimer = setTimeout(() => {
+      this.playbackTimer = null;
+      this.emitNext();
+    }, interval / this.speed);
+  }
+
+  /**
+   * Re-base the recorded timestamp onto the local clock with one offset per pass,
+   * so durations match the original session and the replay doesn't look like
+   * samples from the past. The recorded tracker/receive times are dropped: they
+   * would feed the live clock offset and latency readout with the old session.
+   */
+  private emit(sample: GazeData): void {
+    this.replayClockOffset ??= Date.now() - sample.timestamp;
+    const { trackerTimestamp: _trackerTimestamp, receivedAt: _receivedAt, ...replayed } = sample;
+    if (this.sampleCallback) {
+      this.sampleCallback({ ...replayed, timestamp: sample.timestamp + this.replayClockOffset });
+    }
+  }
+
+  /**
+   * Subscribe to playback state changes
+   */
+  subscribe(listener: ReplayStateListener): () => void {
+    this.stateListeners.add(listener);
+    listener(this.getState());
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  getState(): ReplayState {
+    return {
+      fileName: this.fileName,
+      totalSamples: this.samples.length,
+      position: this.position,
+      isPlaying: this.isPlaying,
+      speed: this.speed,
+    };
+  }
+
+  private notifyStateChange(): void {
+    const state = this.getState();
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+
+  onSample(callback: GazeSampleCallback): void {
+    this.sampleCallback = callback;
+  }
+
+  onCalibrationComplete(callback: CalibrationCompleteCallback): void {
+    this.calibrationCompleteCallback = callback;
+  }
+
+  onError(callback: ErrorCallback): void {
+    this.errorCallback = callback;
+  }
+
+  isTrackingActive(): boolean {
+    return this.isTracking;
+  }
+
+  cleanup(): void {
+    this.stop();
+  }
+}
+
+// Export singleton instance
+export const replayGazeSource = new ReplayGazeSource();
+
+export default replayGazeSource;
@@ -0,0 +1,120 @@
+/**
+ * Saccade Service
+ * Builds the saccade table between detected fixations, with amplitudes in
+ * degrees of visual angle when the screen geometry is known
+ */
+
+import type { TimedPoint } from "@/lib/fixationDetection";
+import {
+  DEFAULT_SACCADE_PARAMETERS,
+  DetectedSaccade,
+  SaccadeParameters,
+  SaccadeType,
+  ScreenGeometry,
+  extractSaccades,
+} from "@/lib/saccadeDetection";
+import type { Fixation } from "./fixationService";
+import wordTrackingService from "./wordTrackingService";
+
+export interface Saccade extends DetectedSaccade {
+  index: number;
+  fromWordIndex: number | null;
+  toWordIndex: number | null;
+}
+
+export interface SaccadeDetectionResult {
+  parameters: SaccadeParameters;
+  screenGeometry: ScreenGeometry | null;
+  counts: Record<SaccadeType, number>;
+  saccades: Saccade[];
+}
+
+const numberFromEnv = (value: string | undefined) =>
+  value !== undefined && Number.isFinite(Number(value)) && Number(value) > 0
+    ? Number(value)
+    : null;
+
+// Physical setup from VITE_SCREEN_WIDTH_CM / VITE_VIEWING_DISTANCE_CM, if both are set
+const ENV_SCREEN_WIDTH_CM = numberFromEnv(import.meta.env.VITE_SCREEN_WIDTH_CM);
+const ENV_VIEWING_DISTANCE_CM = numberFromEnv(import.meta.env.VITE_VIEWING_DISTANCE_CM);
+
+class SaccadeService {
+  private parameters: Partial<SaccadeParameters> = {};
+  private screenGeometry: ScreenGeometry | null = null;
+
+  /**
+   * Override saccade parameters; without a lineHeight it is taken from the word boxes
+   */
+  configure(parameters: Partial<SaccadeParameters>): void {
+    this.parameters = { ...this.parameters, ...parameters };
+  }
+
+  /**
+   * Set the screen geometry used for degree conversion, or null to report px only
+   */
+  setScreenGeometry(geometry: ScreenGeometry | null): void {
+    this.screenGeometry = geometry;
+  }
+
+  getScreenGeometry(): ScreenGeometry | null {
+    if (this.screenGeometry) return this.screenGeometry;
+    if (ENV_SCREEN_WIDTH_CM && ENV_VIEWING_DISTANCE_CM) {
+      return {
+        screenWidthPx: window.screen.width,
+        screenWidthCm: ENV_SCREEN_WIDTH_CM,
+        viewingDistanceCm: ENV_VIEWING_DISTANCE_CM,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Extract saccades between the fixations detected in `samples`
+   */
+  detectSaccades(fixations: Fixation[], samples: TimedPoint[]): SaccadeDetectionResult {
+    // Same ordering the fixation sample indices refer to
+    const sorted = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+    const parameters: SaccadeParameters = {
+      ...DEFAULT_SACCADE_PARAMETERS,
+      lineHeight: this.estimateLineHeight() ?? DEFAULT_SACCADE_PARAMETERS.lineHeight,
+      ...this.parameters,
+    };
+    const screenGeometry = this.getScreenGeometry();
+
+    const saccades = extractSaccades(fixations, sorted, parameters, screenGeometry).map(
+      (saccade, index) => ({
+        ...saccade,
+        index,
+        fromWordIndex: fixations[saccade.fromFixation].wordIndex,
+        toWordIndex: fixations[saccade.toFixation].wordIndex,
+      })
+    );
+
+    const counts: Record<SaccadeType, number> = {
+      forward: 0,
+      regressive: 0,
+      "return-sweep": 0,
+      vertical: 0,
+    };
+    saccades.forEach((saccade) => counts[saccade.type]++);
+
+    console.log(
+      `[Saccades] ${saccades.length} saccades (${counts.forward} forward, ${counts.regressive} regressive, ${counts["return-sweep"]} return sweeps)`
+    );
+
+    return { parameters, screenGeometry, counts, saccades };
+  }
+
+  /**
+   * Median height of the word boxes, as a stand-in for the line height
+   */
+  private estimateLineHeight(): number | null {
+    const heights = wordTrackingService
+      .getWordBounds()
+      .map((bounds) => bounds.height)
+      .sort((a, b) => a - b);
+    return heights.length > 0 ? heights[Math.floor(heights.length / 2)] : null;
+  }
+}
+
+export default new SaccadeService();
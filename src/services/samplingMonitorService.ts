@@ -0,0 +1,170 @@
+/**
+ * Sampling Monitor Service
+ * Tracks the effective sample rate, the inter-sample interval distribution
+ * and gaps in the sample stream, to spot sessions with dropped samples
+ */
+
+const LIVE_WINDOW = 1000; // ms of samples used for the live rate
+const DEFAULT_GAP_THRESHOLD = 100; // ms
+
+// Upper bounds (ms) of the interval histogram bins; the last bin is open-ended
+const INTERVAL_BINS = [10, 20, 35, 50, 75, 100, 200];
+
+export interface SamplingGap {
+  start: number; // timestamp of the sample before the gap
+  end: number; // timestamp of the sample after the gap
+  duration: number; // ms
+}
+
+export interface IntervalHistogramBin {
+  label: string; // e.g. "20-35ms"
+  count: number;
+}
+
+export interface SamplingSummary {
+  sampleCount: number;
+  duration: number; // ms between first and last sample
+  effectiveHz: number; // over the whole session
+  liveHz: number; // over the last second
+  intervalMean: number | null; // ms
+  intervalMedian: number | null; // ms
+  intervalP95: number | null; // ms
+  intervalMax: number | null; // ms
+  intervalHistogram: IntervalHistogramBin[];
+  gapThreshold: number; // ms
+  gaps: SamplingGap[];
+  estimatedDroppedSamples: number;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Value at the given quantile of a sorted array
+ */
+function quantile(sorted: number[], q: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(q * sorted.length) - 1));
+  return sorted[index];
+}
+
+class SamplingMonitorService {
+  private gapThreshold = DEFAULT_GAP_THRESHOLD;
+  private timestamps: number[] = [];
+  private intervals: number[] = [];
+  private gaps: SamplingGap[] = [];
+
+  /**
+   * Record the arrival of one sample
+   */
+  recordSample(timestamp: number): void {
+    const previous = this.timestamps[this.timestamps.length - 1];
+    this.timestamps.push(timestamp);
+    if (previous === undefined) return;
+
+    const interval = timestamp - previous;
+    if (interval < 0) return; // out-of-order sample, not a real interval
+    this.intervals.push(interval);
+
+    if (interval > this.gapThreshold) {
+      this.gaps.push({ start: previous, end: timestamp, duration: interval });
+    }
+  }
+
+  /**
+   * Set the interval above which the stream counts as having a gap
+   */
+  setGapThreshold(threshold: number): void {
+    this.gapThreshold = threshold;
+    this.gaps = [];
+    this.timestamps.forEach((timestamp, i) => {
+      const previous = this.timestamps[i - 1];
+      if (previous !== undefined && timestamp - previous > threshold) {
+        this.gaps.push({ start: previous, end: timestamp, duration: timestamp - previous });
+      }
+    });
+  }
+
+  getGapThreshold(): number {
+    return this.gapThreshold;
+  }
+
+  /**
+   * Samples per second over the last second before `now` (local clock ms, like the
+   * sample timestamps). Pass the current time so a stalled stream falls to 0;
+   * it defaults to the last sample.
+   */
+  getLiveHz(now: number = this.timestamps[this.timestamps.length - 1]): number {
+    if (now === undefined) return 0;
+    let count = 0;
+    for (let i = this.timestamps.length - 1; i >= 0; i--) {
+      if (now - this.timestamps[i] > LIVE_WINDOW) break;
+      count++;
+    }
+    return round((count * 1000) / LIVE_WINDOW);
+  }
+
+  /**
+   * Rate, interval distribution and gaps for the live readout and export metadata;
+   * `now` is passed on to getLiveHz
+   */
+  getSummary(now?: number): SamplingSummary {
+    const sampleCount = this.timestamps.length;
+    const duration =
+      sampleCount > 1 ? this.timestamps[sampleCount - 1] - this.timestamps[0] : 0;
+    const sorted = [...this.intervals].sort((a, b) => a - b);
+    const hasIntervals = sorted.length > 0;
+    const median = hasIntervals ? quantile(sorted, 0.5) : null;
+
+    const histogram = this.buildHistogram();
+
+    // Each gap hides roughly (gap / typical interval - 1) samples
+    const estimatedDroppedSamples =
+      median && median > 0
+        ? this.gaps.reduce(
+            (sum, gap) => sum + Math.max(0, Math.round(gap.duration / median) - 1),
+            0
+          )
+        : 0;
+
+    return {
+      sampleCount,
+      duration,
+      effectiveHz: duration > 0 ? round(((sampleCount - 1) * 1000) / duration) : 0,
+      liveHz: this.getLiveHz(now),
+      intervalMean: hasIntervals
+        ? round(sorted.reduce((sum, i) => sum + i, 0) / sorted.length)
+        : null,
+      intervalMedian: median,
+      intervalP95: hasIntervals ? quantile(sorted, 0.95) : null,
+      intervalMax: hasIntervals ? sorted[sorted.length - 1] : null,
+      intervalHistogram: histogram,
+      gapThreshold: this.gapThreshold,
+      gaps: this.gaps.map((gap) => ({ ...gap })),
+      estimatedDroppedSamples,
+    };
+  }
+
+  private buildHistogram(): IntervalHistogramBin[] {
+    const bins: IntervalHistogramBin[] = INTERVAL_BINS.map((upper, i) => ({
+      label: `${i === 0 ? 0 : INTERVAL_BINS[i - 1]}-${upper}ms`,
+      count: 0,
+    }));
+    bins.push({ label: `>${INTERVAL_BINS[INTERVAL_BINS.length - 1]}ms`, count: 0 });
+
+    for (const interval of this.intervals) {
+      const index = INTERVAL_BINS.findIndex((upper) => interval < upper);
+      bins[index === -1 ? bins.length - 1 : index].count++;
+    }
+    return bins;
+  }
+
+  /**
+   * Reset for a new tracking session
+   */
+  reset(): void {
+    this.timestamps = [];
+    this.intervals = [];
+    this.gaps = [];
+  }
+}
+
+export default new SamplingMonitorService();
@@ -0,0 +1,247 @@
+/**
+ * Simulated Gaze Source
+ * Turns mouse movement into gaze samples for development and machines without a webcam
+ */
+
+import type {
+  CalibrationCompleteCallback,
+  ErrorCallback,
+  GazeData,
+  GazeSampleCallback,
+  GazeSource,
+} from "./gazeSource";
+
+export interface SimulatedGazeOptions {
+  sampleRate: number; // samples per second
+  noise: number; // standard deviation of positional noise, px
+  jitter: number; // max random deviation of the sample interval, ms
+  latency: number; // delay between capture and delivery, ms
+  calibrationDelay: number; // time until the fake calibration completes, ms
+}
+
+export const DEFAULT_SIMULATED_GAZE_OPTIONS: SimulatedGazeOptions = {
+  sampleRate: 30,
+  noise: 0,
+  jitter: 0,
+  latency: 0,
+  calibrationDelay: 1000,
+};
+
+// URL flags, e.g. ?gazeSource=simulated&simNoise=20&simLatency=50
+const URL_OPTION_KEYS: Record<string, keyof SimulatedGazeOptions> = {
+  simRate: "sampleRate",
+  simNoise: "noise",
+  simJitter: "jitter",
+  simLatency: "latency",
+  simCalibrationDelay: "calibrationDelay",
+};
+
+/**
+ * Read simulator options from URL query parameters
+ */
+export function parseSimulatedGazeOptions(search: string): Partial<SimulatedGazeOptions> {
+  const params = new URLSearchParams(search);
+  const options: Partial<SimulatedGazeOptions> = {};
+
+  for (const [param, key] of Object.entries(URL_OPTION_KEYS)) {
+    const raw = params.get(param);
+    if (raw === null) continue;
+    const value = Number(raw);
+    if (Number.isFinite(value) && value >= 0) {
+      options[key] = value;
+    } else {
+      console.warn(`[SimulatedGaze] Ignoring invalid ${param}=${raw}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Standard normal random number (Box-Muller)
+ */
+function gaussian(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+class SimulatedGazeSource implements GazeSource {
+  readonly id = "simulated";
+  readonly label = "Simulated (mouse)";
+
+  private options: SimulatedGazeOptions = { ...DEFAULT_SIMULATED_GAZE_OPTIONS };
+  private isInitialized = false;
+  private isTracking = false;
+  private isCalibrated = false;
+  private mousePosition: { x: number; y: number } | null = null;
+  private isPointerOutside = false;
+  private sampleTimer: ReturnType<typeof setTimeout> | null = null;
+  private calibrationTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingDeliveries: Set<ReturnType<typeof setTimeout>> = new Set();
+  private sampleCallback: GazeSampleCallback | null = null;
+  private calibrationCompleteCallback: CalibrationCompleteCallback | null = null;
+  private errorCallback: ErrorCallback | null = null;
+
+  private handleMouseMove = (event: MouseEvent) => {
+    // Document coordinates, like GazeCloud's docX/docY
+    this.mousePosition = { x: event.pageX, y: event.pageY };
+    this.isPointerOutside = false;
+  };
+
+  // Leaving the window simulates tracking loss
+  private handleMouseOut = (event: MouseEvent) => {
+    if (!event.relatedTarget) {
+      this.isPointerOutside = true;
+    }
+  };
+
+  /**
+   * Override simulator options; takes effect on the next sample
+   */
+  configure(options: Partial<SimulatedGazeOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Get the current simulator options
+   */
+  getOptions(): SimulatedGazeOptions {
+    return { ...this.options };
+  }
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+
+    this.configure(parseSimulatedGazeOptions(window.location.search));
+    window.addEventListener("mousemove", this.handleMouseMove);
+    document.addEventListener("mouseout", this.handleMouseOut);
+    this.isInitialized = true;
+    console.log("[SimulatedGaze] Initialized with options", this.options);
+  }
+
+  /**
+   * Start sampling the mouse; a fake calibration completes after `calibrationDelay`.
+   * Every call re-runs the calibration, so recalibrating a running source completes too.
+   */
+  start(): void {
+    if (!this.isInitialized) {
+      console.warn("Simulated gaze source not initialized");
+      return;
+    }
+
+    if (!this.isTracking) {
+      this.isTracking = true;
+      this.scheduleNextSample();
+    }
+
+    this.isCalibrated = false;
+    if (this.calibrationTimer) {
+      clearTimeout(this.calibrationTimer);
+    }
+    this.calibrationTimer = setTimeout(() => {
+      this.calibrationTimer = null;
+      this.isCalibrated = true;
+      console.log("Simulated calibration complete");
+      if (this.calibrationCompleteCallback) {
+        this.calibrationCompleteCallback();
+      }
+    }, this.options.calibrationDelay);
+  }
+
+  stop(): void {
+    this.isTracking = false;
+
+    if (this.sampleTimer) {
+      clearTimeout(this.sampleTimer);
+      this.sampleTimer = null;
+    }
+    if (this.calibrationTimer) {
+      clearTimeout(this.calibrationTimer);
+      this.calibrationTimer = null;
+    }
+    this.pendingDeliveries.forEach((timer) => clearTimeout(timer));
+    this.pendingDeliveries.clear();
+  }
+
+  private scheduleNextSample(): void {
+    const { sampleRate, jitter } = this.options;
+    if (sampleRate <= 0) {
+      if (this.errorCallback) {
+        this.errorCallback("Simulated sample rate must be greater than 0");
+      }
+      return;
+    }
+
+    const interval = 1000 / sampleRate;
+    const delay = Math.max(0, interval + (Math.random() * 2 - 1) * jitter);
+
+    this.sampleTimer = setTimeout(() => {
+      this.emitSample();
+      if (this.isTracking) {
+        this.scheduleNextSample();
+      }
+    }, delay);
+  }
+
+  private emitSample(): void {
+    if (!this.mousePosition) return;
+
+    const { noise, latency } = this.options;
+    const capturedAt = Date.now();
+    const data: GazeData = {
+      x: this.mousePosition.x + gaussian() * noise,
+      y: this.mousePosition.y + gaussian() * noise,
+      timestamp: capturedAt,
+      calibrated: this.isCalibrated && !this.isPointerOutside,
+      state: this.isPointerOutside ? "lost" : this.isCalibrated ? "valid" : "uncalibrated",
+      trackerTimestamp: capturedAt,
+    };
+
+    if (latency <= 0) {
+      this.deliver(data);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.pendingDeliveries.delete(timer);
+      this.deliver(data);
+    }, latency);
+    this.pendingDeliveries.add(timer);
+  }
+
+  private deliver(data: GazeData): void {
+    if (this.isTracking && this.sampleCallback) {
+      this.sampleCallback({ ...data, receivedAt: Date.now() });
+    }
+  }
+
+  onSample(callback: GazeSampleCallback): void {
+    this.sampleCallback = callback;
+  }
+
+  onCalibrationComplete(callback: CalibrationCompleteCallback): void {
+    this.calibrationCompleteCallback = callback;
+  }
+
+  onError(callback: ErrorCallback): void {
+    this.errorCallback = callback;
+  }
+
+  isTrackingActive(): boolean {
+    return this.isTracking;
+  }
+
+  cleanup(): void {
+    this.stop();
+    this.isCalibrated = false;
+    window.removeEventListener("mousemove", this.handleMouseMove);
+    document.removeEventListener("mouseout", this.handleMouseOut);
+    this.isInitialized = false;
+  }
+}
+
+// Export singleton instance
+export const simulatedGazeSource = new SimulatedGazeSource();
+
+export default simulatedGazeSource;
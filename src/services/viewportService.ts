@@ -0,0 +1,90 @@
+/**
+ * Viewport Service
+ * Tracks the scroll position and converts between document, viewport and
+ * container coordinates, so gaze samples (document space) and on-screen
+ * overlays (viewport space) stay aligned on scrolled and long pages
+ */
+
+import {
+  Point,
+  Rect,
+  documentToContainer,
+  documentToViewport,
+  viewportRectToDocument,
+  viewportToDocument,
+} from "@/lib/coordinates";
+
+export type ScrollListener = (scroll: Point) => void;
+
+class ViewportService {
+  private listeners: Set<ScrollListener> = new Set();
+
+  private handleScroll = () => {
+    const scroll = this.getScroll();
+    this.listeners.forEach((listener) => listener(scroll));
+  };
+
+  /**
+   * Current scroll offset of the page
+   */
+  getScroll(): Point {
+    return { x: window.scrollX, y: window.scrollY };
+  }
+
+  /**
+   * Get notified when the page scrolls; returns the unsubscribe function
+   */
+  subscribe(listener: ScrollListener): () => void {
+    if (this.listeners.size === 0) {
+      window.addEventListener("scroll", this.handleScroll, { passive: true });
+    }
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        window.removeEventListener("scroll", this.handleScroll);
+      }
+    };
+  }
+
+  toViewport(point: Point, scroll: Point = this.getScroll()): Point {
+    return documentToViewport(point, scroll);
+  }
+
+  toDocument(point: Point, scroll: Point = this.getScroll()): Point {
+    return viewportToDocument(point, scroll);
+  }
+
+  /**
+   * Document position of an element's top-left corner
+   */
+  getElementOrigin(element: Element): Point {
+    const rect = element.getBoundingClientRect();
+    return this.toDocument({ x: rect.left, y: rect.top });
+  }
+
+  toContainer(point: Point, element: Element): Point {
+    return documentToContainer(point, this.getElementOrigin(element));
+  }
+
+  /**
+   * Document-space rect of a viewport rect, e.g. from getBoundingClientRect()
+   */
+  rectToDocument(rect: DOMRect | Rect): Rect {
+    return viewportRectToDocument(
+      { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+      this.getScroll()
+    );
+  }
+
+  /**
+   * Whether a document point is currently visible
+   */
+  isInViewport(point: Point): boolean {
+    const { x, y } = this.toViewport(point);
+    return x >= 0 && y >= 0 && x <= window.innerWidth && y <= window.innerHeight;
+  }
+}
+
+export default new ViewportService();
@@ -0,0 +1,307 @@
+/**
+ * WebSocket Gaze Source
+ * Ingests samples from external/hardware trackers that publish over a local WebSocket
+ *
+ * Message format (JSON text frames, one object or an array of objects per frame):
+ *
+ *   { "type": "sample", "x": 512.3, "y": 288.1, "time": 1718000000123, "state": 0 }
+ *     x, y   gaze position in document pixels (like GazeCloud's docX/docY)
+ *     time   tracker timestamp in ms (optional, defaults to receive time)
+ *     state  0: valid, 1: uncalibrated, -1: tracking lost (optional, defaults to 0)
+ *
+ *   { "type": "calibration", "status": "complete" }
+ *     sent by the tracker once its own calibration is done. Trackers that are
+ *     calibrated out of band can omit it; the first valid sample then counts.
+ *
+ *   { "type": "error", "message": "..." }
+ *
+ * "type" may be omitted for samples.
+ */
+
+import type {
+  CalibrationCompleteCallback,
+  ErrorCallback,
+  GazeData,
+  GazeSampleCallback,
+  GazeSource,
+  GazeSourceStatus,
+  StatusChangeCallback,
+} from "./gazeSource";
+
+export const DEFAULT_GAZE_WS_URL =
+  import.meta.env.VITE_GAZE_WS_URL || "ws://localhost:8765";
+
+const INITIAL_RECONNECT_DELAY = 500; // ms
+const MAX_RECONNECT_DELAY = 10000; // ms
+
+export interface WebSocketGazeMessage {
+  type?: "sample" | "calibration" | "error";
+  x?: number;
+  y?: number;
+  time?: number;
+  state?: number;
+  status?: string;
+  message?: string;
+}
+
+/**
+ * Convert one wire message into a gaze sample, or null if it isn't a valid sample
+ */
+export function parseWebSocketSample(
+  message: WebSocketGazeMessage,
+  receivedAt: number
+): GazeData | null {
+  if ((message.type ?? "sample") !== "sample") return null;
+  if (typeof message.x !== "number" || typeof message.y !== "number") return null;
+  if (!Number.isFinite(message.x) || !Number.isFinite(message.y)) return null;
+
+  const state = typeof message.state === "number" ? message.state : 0;
+  const hasTrackerTime = typeof message.time === "number" && Number.isFinite(message.time);
+  return {
+    x: message.x,
+    y: message.y,
+    timestamp: receivedAt,
+    calibrated: state === 0,
+    state: state === 0 ? "valid" : state === -1 ? "lost" : "uncalibrated",
+    trackerTimestamp: hasTrackerTime ? message.time : undefined,
+    receivedAt,
+  };
+}
+
+class WebSocketGazeSource implements GazeSource {
+  readonly id = "websocket";
+  readonly label = "External tracker (WebSocket)";
+
+  private url: string = DEFAULT_GAZE_WS_URL;
+  private socket: WebSocket | null = null;
+  private isTracking = false;
+  private isCalibrated = false;
+  private shouldReconnect = false;
+  private reconnectDelay = INITIAL_RECONNECT_DELAY;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private status: GazeSourceStatus = { state: "idle" };
+  private sampleCallback: GazeSampleCallback | null = null;
+  private calibrationCompleteCallback: CalibrationCompleteCallback | null = null;
+  private errorCallback: ErrorCallback | null = null;
+  private statusChangeCallback: StatusChangeCallback | null = null;
+
+  /**
+   * Set the tracker URL; reconnects if already connected
+   */
+  setUrl(url: string): void {
+    if (url === this.url) return;
+    this.url = url;
+    if (this.shouldReconnect) {
+      this.disconnect();
+      this.connect();
+    }
+  }
+
+  getUrl(): string {
+    return this.url;
+  }
+
+  getStatus(): GazeSourceStatus {
+    return this.status;
+  }
+
+  /**
+   * Open the connection (URL from `?wsUrl=`, VITE_GAZE_WS_URL or the default).
+   * Connecting and reconnecting continue in the background; watch onStatusChange.
+   */
+  async initialize(): Promise<void> {
+    const urlParam = new URLSearchParams(window.location.search).get("wsUrl");
+    if (urlParam) {
+      this.url = urlParam;
+    }
+
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) return;
+
+    this.shouldReconnect = true;
+    this.connect();
+  }
+
+  private connect(): void {
+    if (!/^wss?:\/\//.test(this.url)) {
+      this.setStatus({ state: "disconnected", message: `Invalid URL: ${this.url}` });
+      this.emitError(`Invalid WebSocket URL: ${this.url}`);
+      this.shouldReconnect = false;
+      return;
+    }
+
+    this.setStatus({
+      state: this.reconnectDelay > INITIAL_RECONNECT_DELAY ? "reconnecting" : "connecting",
+      message: this.url,
+    });
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.emitError(`Could not connect to ${this.url}: ${message}`);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      console.log(`[WebSocketGaze] Connected to ${this.url}`);
+      this.reconnectDelay = INITIAL_RECONNECT_DELAY;
+      this.setStatus({ state: "connected", message: this.url });
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      this.handleMessage(event.data, Date.now());
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      console.warn(`[WebSocketGaze] Connection to ${this.url} closed`);
+      this.setStatus({ state: "disconnected", message: this.url });
+      this.scheduleReconnect();
+    };
+
+    socket.onerror = () => {
+      // The close event follows and handles reconnecting
+      console.error(`[WebSocketGaze] Connection error on ${this.url}`);
+    };
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+    this.reconnectDelay = INITIAL_RECONNECT_DELAY;
+  }
+
+  /**
+   * Reconnect with exponential backoff
+   */
+  private scheduleReconnect(): void {
+    if (!this.shouldReconnect || this.reconnectTimer) return;
+
+    const delay = this.reconnectDelay;
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+    this.setStatus({
+      state: "reconnecting",
+      message: `Retrying ${this.url} in ${(delay / 1000).toFixed(1)}s`,
+    });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private handleMessage(raw: unknown, receivedAt: number): void {
+    if (typeof raw !== "string") return;
+
+    let parsed: WebSocketGazeMessage | WebSocketGazeMessage[];
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      console.warn("[WebSocketGaze] Ignoring non-JSON message");
+      return;
+    }
+
+    const messages = Array.isArray(parsed) ? parsed : [parsed];
+    for (const message of messages) {
+      if (!message || typeof message !== "object") continue;
+
+      if (message.type === "calibration") {
+        if (message.status === "complete") {
+          this.markCalibrated();
+        }
+        continue;
+      }
+
+      if (message.type === "error") {
+        this.emitError(message.message ?? "Unknown tracker error");
+        continue;
+      }
+
+      const data = parseWebSocketSample(message, receivedAt);
+      if (!data) continue;
+
+      if (data.calibrated && !this.isCalibrated && this.isTracking) {
+        this.markCalibrated();
+      }
+
+      if (this.isTracking && this.sampleCallback) {
+        this.sampleCallback(data);
+      }
+    }
+  }
+
+  private markCalibrated(): void {
+    if (this.isCalibrated) return;
+    this.isCalibrated = true;
+    console.log("External tracker calibration complete");
+    if (this.calibrationCompleteCallback) {
+      this.calibrationCompleteCallback();
+    }
+  }
+
+  private setStatus(status: GazeSourceStatus): void {
+    this.status = status;
+    if (this.statusChangeCallback) {
+      this.statusChangeCallback(status);
+    }
+  }
+
+  private emitError(error: string): void {
+    console.error("WebSocket gaze error:", error);
+    if (this.errorCallback) {
+      this.errorCallback(error);
+    }
+  }
+
+  start(): void {
+    this.isTracking = true;
+    this.isCalibrated = false;
+  }
+
+  stop(): void {
+    this.isTracking = false;
+  }
+
+  onSample(callback: GazeSampleCallback): void {
+    this.sampleCallback = callback;
+  }
+
+  onCalibrationComplete(callback: CalibrationCompleteCallback): void {
+    this.calibrationCompleteCallback = callback;
+  }
+
+  onError(callback: ErrorCallback): void {
+    this.errorCallback = callback;
+  }
+
+  onStatusChange(callback: StatusChangeCallback): void {
+    this.statusChangeCallback = callback;
+  }
+
+  isTrackingActive(): boolean {
+    return this.isTracking;
+  }
+
+  cleanup(): void {
+    this.stop();
+    this.shouldReconnect = false;
+    this.disconnect();
+    this.setStatus({ state: "idle" });
+  }
+}
+
+// Export singleton instance
+export const websocketGazeSource = new WebSocketGazeSource();
+
+export default websocketGazeSource;
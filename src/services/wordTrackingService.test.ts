@@ -0,0 +1,136 @@
+// @vitest-environment jsdom
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { installFakeLayout, uninstallFakeLayout } from "@/test/fakeLayout";
+import wordTrackingService from "./wordTrackingService";
+
+// "alpha beta gamma" at 10 px per character: alpha x 0-50, beta x 60-100,
+// gamma x 110-160, on a line from y 100 to 120
+const MIDDLE = 110;
+
+const dwell = (word: string): number =>
+  wordTrackingService.getWordReadings().find((reading) => reading.word === word)
+    ?.gazeTotalTime ?? 0;
+
+describe("wordTrackingService dwell time", () => {
+  beforeAll(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    installFakeLayout();
+  });
+
+  afterAll(() => {
+    uninstallFakeLayout();
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    document.body.innerHTML = "<div><p>alpha beta gamma</p></div>";
+    wordTrackingService.reset();
+    wordTrackingService.setMappingOptions({ strategy: "nearest", padding: 4, radius: 30, sigma: 15 });
+    wordTrackingService.setDwellGapThreshold(100);
+    wordTrackingService.extractWordBounds(document.querySelector("div")!);
+  });
+
+  it("attributes each interval to the word of the sample that starts it", () => {
+    // Uneven sampling: 16, 34 and 40 ms on alpha, then 10 ms on beta
+    wordTrackingService.trackGaze(25, MIDDLE, 0);
+    wordTrackingService.trackGaze(25, MIDDLE, 16);
+    wordTrackingService.trackGaze(30, MIDDLE, 50);
+    wordTrackingService.trackGaze(80, MIDDLE, 90);
+    wordTrackingService.trackGaze(80, MIDDLE, 100);
+    wordTrackingService.trackGaze(135, MIDDLE, 133);
+
+    expect(dwell("alpha")).toBe(90);
+    expect(dwell("beta")).toBe(43);
+    // The last sample's interval is still open
+    expect(dwell("gamma")).toBe(0);
+  });
+
+  it("ends the interval at an unmapped sample and counts nothing until the next mapped one", () => {
+    wordTrackingService.trackGaze(25, MIDDLE, 0);
+    wordTrackingService.trackUnmappedSample(30);
+    wordTrackingService.trackUnmappedSample(60);
+    wordTrackingService.trackGaze(25, MIDDLE, 90);
+    wordTrackingService.trackGaze(25, MIDDLE, 120);
+    // A sample off the text is unmapped as well
+    wordTrackingService.trackGaze(25, 400, 145);
+    wordTrackingService.trackGaze(25, MIDDLE, 170);
+
+    expect(dwell("alpha")).toBe(30 + 30 + 25);
+  });
+
+  it("drops intervals above the gap threshold", () => {
+    wordTrackingService.trackGaze(25, MIDDLE, 0);
+    wordTrackingService.trackGaze(25, MIDDLE, 50);
+    wordTrackingService.trackGaze(25, MIDDLE, 200); // 150 ms gap
+    wordTrackingService.trackGaze(25, MIDDLE, 280);
+    wordTrackingService.trackGaze(25, MIDDLE, 380); // exactly the threshold counts
+    wordTrackingService.trackGaze(25, MIDDLE, 381);
+
+    expect(dwell("alpha")).toBe(50 + 80 + 100 + 1);
+  });
+
+  it("uses the configured gap threshold", () => {
+    wordTrackingService.setDwellGapThreshold(200);
+    wordTrackingService.trackGaze(25, MIDDLE, 0);
+    wordTrackingService.trackGaze(25, MIDDLE, 150);
+    wordTrackingService.trackGaze(25, MIDDLE, 400); // 250 ms gap
+
+    expect(dwell("alpha")).toBe(150);
+  });
+
+  it("splits intervals by the probabilistic weights", () => {
+    wordTrackingService.setMappingOptions({ strategy: "probabilistic" });
+
+    // Halfway between alpha and beta: 1 px from both padded boxes, equal weights
+    wordTrackingService.trackGaze(55, MIDDLE, 0);
+    wordTrackingService.trackGaze(55, MIDDLE, 40);
+    // Inside alpha, 31 px from beta: outside the 30 px radius, alpha only
+    wordTrackingService.trackGaze(25, MIDDLE, 60);
+    wordTrackingService.trackUnmappedSample(80);
+
+    expect(dwell("alpha")).toBe(20 + 10 + 20);
+    expect(dwell("beta")).toBe(20 + 10);
+  });
+
+  it("weights probabilistic intervals by the distance to each word", () => {
+    wordTrackingService.setMappingOptions({ strategy: "probabilistic" });
+
+    // Inside beta's padded box, 3 px from alpha's
+    wordTrackingService.trackGaze(57, MIDDLE, 0);
+    wordTrackingService.trackUnmappedSample(100);
+
+    const alphaWeight = Math.exp(-9 / (2 * 15 * 15));
+    expect(dwell("alpha")).toBeCloseTo((100 * alphaWeight) / (1 + alphaWeight), 10);
+    expect(dwell("beta")).toBeCloseTo(100 / (1 + alphaWeight), 10);
+    expect(dwell("alpha") + dwell("beta")).toBeCloseTo(100, 10);
+  });
+});
+
+describe("wordTrackingService AOI text", () => {
+  beforeAll(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    installFakeLayout();
+  });
+
+  afterAll(() => {
+    wordTrackingService.setTokenizerOptions({ locale: "en", granularity: "word" });
+    uninstallFakeLayout();
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    wordTrackingService.reset();
+  });
+
+  const lineText = (html: string, locale: string): string => {
+    document.body.innerHTML = `<div><p>${html}</p></div>`;
+    wordTrackingService.setTokenizerOptions({ locale, granularity: "word" });
+    wordTrackingService.extractWordBounds(document.querySelector("div")!);
+    return wordTrackingService.getAoiData().line[0].text;
+  };
+
+  it("keeps the text's own separators, across text nodes", () => {
+    expect(lineText("我们<b>去</b>学校。", "zh")).toBe("我们去学校。");
+    expect(lineText("un<i>believable</i>,\n   really", "en")).toBe("unbelievable, really");
+  });
+});
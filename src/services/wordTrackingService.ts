@@ -3,23 +3,95 @@
  * Handles word detection, bounding box calculation, and reading metrics
  */
 
+import {
+  DEFAULT_WORD_MAPPING_OPTIONS,
+  WordCandidate,
+  WordMappingOptions,
+  mapPointToWords,
+} from "@/lib/wordMapping";
+import { WordSpatialIndex } from "@/lib/wordSpatialIndex";
+import { WordMeasures, computeReadingMeasures } from "@/lib/readingMeasures";
+import {
+  AOI_LEVELS,
+  AoiLevel,
+  AoiMetrics,
+  AoiVisitTracker,
+  AreaOfInterest,
+  aoiIndexOf,
+  buildAois,
+} from "@/lib/areasOfInterest";
+import { groupWordsIntoLines } from "@/lib/driftCorrection";
+import {
+  FrequencyTable,
+  LexicalFeatures,
+  computeLexicalFeatures,
+  endsSentence,
+  parseFrequencyTable,
+} from "@/lib/lexicalFeatures";
+import { TokenizerOptions, isSegmenterSupported, tokenize } from "@/lib/tokenization";
+import viewportService from "./viewportService";
+
+// Sample intervals longer than this are tracking gaps, not time spent on a word
+const DEFAULT_DWELL_GAP_THRESHOLD = 100; // ms
+
+// Bounds are in document coordinates, the same space as gaze samples
 export interface WordBounds {
   word: string;
+  separator: string; // text between the previous word and this one, whitespace collapsed
   x: number;
   y: number;
   width: number;
   height: number;
   index: number;
+  lineIndex: number; // visual line, from the word y-positions
+  sentenceIndex: number;
+  paragraphIndex: number; // block element the word is in
 }
 
+export interface AoiWithMetrics extends AreaOfInterest, AoiMetrics {}
+
+export type AoiData = Record<AoiLevel, AoiWithMetrics[]>;
+
 export interface WordReading {
   word: string;
   wordIndex: number;
-  gazeTotalTime: number; // ms
-  gazePointCount: number;
+  gazeTotalTime: number; // ms, summed from the intervals of the samples on this word
+  gazePointCount: number; // fractional with probabilistic mapping
   firstGazeTime: number;
   lastGazeTime: number;
   frequency: number; // how many separate time periods it was gazed at
+  fixationCount: number;
+  fixationDuration: number; // ms, summed over fixations on this word
+}
+
+export interface WordFixation {
+  wordIndex: number | null;
+  start: number;
+  end: number;
+  duration: number;
+}
+
+export interface WordReadingMeasures extends WordMeasures {
+  word: string;
+}
+
+export type LayoutChangeReason =
+  | "initial"
+  | "resize"
+  | "content"
+  | "fonts"
+  | "zoom"
+  | "tokenization";
+
+/**
+ * Word boxes as they were on screen from `timestamp` until the next version
+ */
+export interface LayoutVersion {
+  version: number;
+  timestamp: number; // local clock ms, like sample timestamps
+  reason: LayoutChangeReason;
+  devicePixelRatio: number;
+  words: WordBounds[];
 }
 
 export interface WordReadingEvent {
@@ -28,17 +100,90 @@ export interface WordReadingEvent {
   timestamp: number;
 }
 
+const LAYOUT_TOLERANCE = 0.5; // px
+
+// Language of the text for tokenization: VITE_TEXT_LOCALE, else the page language
+const DEFAULT_TOKENIZER_OPTIONS: TokenizerOptions = {
+  locale: import.meta.env.VITE_TEXT_LOCALE || document.documentElement.lang || "en",
+  granularity: "word",
+};
+
+// Frequency list (CSV/TSV: word, value) loaded at startup when configured
+const FREQUENCY_TABLE_URL: string | undefined = import.meta.env.VITE_WORD_FREQUENCY_URL;
+
+/**
+ * Closest block-level ancestor (paragraph, heading, list item, ...) inside the container
+ */
+function blockAncestor(element: Element, container: Element): Element {
+  let current = element;
+  while (
+    current !== container &&
+    current.parentElement &&
+    window.getComputedStyle(current).display.startsWith("inline")
+  ) {
+    current = current.parentElement;
+  }
+  return current;
+}
+
+/**
+ * Same words at the same positions, within sub-pixel tolerance
+ */
+function sameLayout(a: WordBounds[], b: WordBounds[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (word, i) =>
+        word.word === b[i].word &&
+        Math.abs(word.x - b[i].x) < LAYOUT_TOLERANCE &&
+        Math.abs(word.y - b[i].y) < LAYOUT_TOLERANCE &&
+        Math.abs(word.width - b[i].width) < LAYOUT_TOLERANCE &&
+        Math.abs(word.height - b[i].height) < LAYOUT_TOLERANCE
+    )
+  );
+}
+
+/**
+ * One value per AOI level
+ */
+function aoiRecord<T>(create: (level: AoiLevel) => T): Record<AoiLevel, T> {
+  return {
+    word: create("word"),
+    line: create("line"),
+    sentence: create("sentence"),
+    paragraph: create("paragraph"),
+  };
+}
+
 class WordTrackingService {
   private wordBoundsMap: Map<number, WordBounds> = new Map();
   private wordReadings: Map<string, WordReading> = new Map();
   private wordReadingSequence: WordReadingEvent[] = [];
   private lastGazedWordIndex: number = -1;
   private wordIndexToWord: Map<number, string> = new Map();
+  private mappingOptions: WordMappingOptions = { ...DEFAULT_WORD_MAPPING_OPTIONS };
+  private spatialIndex: WordSpatialIndex<WordBounds> | null = null;
+  private readingMeasures: WordReadingMeasures[] = [];
+  private dwellGapThreshold = DEFAULT_DWELL_GAP_THRESHOLD;
+  private layoutHistory: LayoutVersion[] = [];
+  private layoutIndexes: Map<number, WordSpatialIndex<WordBounds>> = new Map();
+  private aois: Record<AoiLevel, AreaOfInterest[]> = aoiRecord(() => []);
+  private aoiTrackers: Record<AoiLevel, AoiVisitTracker> = aoiRecord(
+    () => new AoiVisitTracker(DEFAULT_DWELL_GAP_THRESHOLD)
+  );
+  private frequencyTable: FrequencyTable | null = null;
+  private tokenizerOptions: TokenizerOptions = { ...DEFAULT_TOKENIZER_OPTIONS };
+  // Last mapped sample, whose dwell interval ends at the next sample
+  private openDwell: { candidates: WordCandidate<WordBounds>[]; timestamp: number } | null = null;
 
   /**
-   * Extract all words and their bounding boxes from a text container
+   * Extract all words and their bounding boxes from a text container.
+   * A changed layout becomes a new layout version; an unchanged one keeps the current.
    */
-  extractWordBounds(containerElement: HTMLElement): WordBounds[] {
+  extractWordBounds(
+    containerElement: HTMLElement,
+    reason: LayoutChangeReason = "initial"
+  ): WordBounds[] {
     const words: WordBounds[] = [];
     let wordIndex = 0;
 
@@ -56,17 +201,23 @@ class WordTrackingService {
     let node: Node | null;
     let nodeCount = 0;
     let totalWordsFound = 0;
+    const paragraphs = new Map<Element, number>();
+    let sentenceIndex = -1;
+    let previousParagraph = -1;
+    let sentenceEnded = true;
+    // Text since the end of the previous word, possibly spanning text nodes
+    let pendingText = "";
 
     while ((node = walker.nextNode())) {
       const textContent = node.textContent || "";
       const nodeText = textContent;
       
-      // Find all word matches with their positions
-      const wordMatches = Array.from(nodeText.matchAll(/\S+/g));
+      // Find all word (or character) tokens with their positions
+      const tokens = tokenize(nodeText, this.tokenizerOptions);
       nodeCount++;
-      totalWordsFound += wordMatches.length;
+      totalWordsFound += tokens.length;
 
-      console.log(`[WordTracking] Text node ${nodeCount}: "${textContent.substring(0, 50)}..." has ${wordMatches.length} words`);
+      console.log(`[WordTracking] Text node ${nodeCount}: "${textContent.substring(0, 50)}..." has ${tokens.length} tokens`);
 
       // Get the parent element to calculate positions
       const parent = node.parentElement;
@@ -75,11 +226,21 @@ class WordTrackingService {
         continue;
       }
 
-      // For each word match with known position
-      for (const match of wordMatches) {
-        const word = match[0];
-        const wordStart = match.index || 0;
-        const wordEnd = wordStart + word.length;
+      const block = blockAncestor(parent, containerElement);
+      if (!paragraphs.has(block)) {
+        paragraphs.set(block, paragraphs.size);
+      }
+      const paragraphIndex = paragraphs.get(block)!;
+
+      // For each token with known position
+      let nodeOffset = 0;
+      for (const token of tokens) {
+        const word = token.text;
+        const wordStart = token.start;
+        const wordEnd = token.end;
+        const separator = (pendingText + nodeText.slice(nodeOffset, wordStart)).replace(/\s+/g, " ");
+        pendingText = "";
+        nodeOffset = wordEnd;
 
         // Create range for this word
         const wordRange = document.createRange();
@@ -87,43 +248,84 @@ class WordTrackingService {
         wordRange.setEnd(node, wordEnd);
 
         try {
-          const rect = wordRange.getBoundingClientRect();
+          // Viewport rect, stored in document space so it stays valid when scrolling
+          const rect = viewportService.rectToDocument(wordRange.getBoundingClientRect());
           
           // Log details for debugging
           if (wordIndex === 0 || wordIndex === totalWordsFound - 1) {
             console.log(`[WordTracking] Word "${word}" bounds:`, {
               width: rect.width,
               height: rect.height,
-              x: rect.left,
-              y: rect.top
+              x: rect.x,
+              y: rect.y
             });
           }
           
           // Accept words even if width/height is 0 in some edge cases
           if (rect.width >= 0 && rect.height >= 0) {
+            // Sentences end at terminal punctuation and never cross paragraphs
+            if (sentenceEnded || paragraphIndex !== previousParagraph) {
+              sentenceIndex++;
+            }
+            previousParagraph = paragraphIndex;
+            sentenceEnded = endsSentence(word);
+
             words.push({
               word,
-              x: rect.left,
-              y: rect.top,
+              separator,
+              x: rect.x,
+              y: rect.y,
               width: rect.width,
               height: rect.height,
               index: wordIndex,
+              lineIndex: 0, // assigned once all words are known
+              sentenceIndex,
+              paragraphIndex,
             });
 
-            this.wordIndexToWord.set(wordIndex, word);
             wordIndex++;
           }
         } catch (e) {
           console.warn("Error getting bounds for word:", word, e);
         }
       }
+      pendingText += nodeText.slice(nodeOffset);
+    }
+
+    for (const line of groupWordsIntoLines(words)) {
+      for (let i = line.firstWordIndex; i <= line.lastWordIndex; i++) {
+        words[i].lineIndex = line.index;
+      }
+    }
+
+    if (this.layoutHistory.length > 0 && sameLayout(words, this.getWordBounds())) {
+      console.log(`[WordTracking] Layout unchanged after ${reason}`);
+      return this.getWordBounds();
     }
 
     // Store the bounds map
+    this.wordBoundsMap.clear();
+    this.wordIndexToWord.clear();
     words.forEach((w) => {
       this.wordBoundsMap.set(w.index, w);
+      this.wordIndexToWord.set(w.index, w.word);
+    });
+    this.spatialIndex = new WordSpatialIndex(this.wordBoundsMap.values());
+    AOI_LEVELS.forEach((level) => {
+      this.aois[level] = buildAois(words, level);
     });
 
+    const version = this.layoutHistory.length + 1;
+    this.layoutHistory.push({
+      version,
+      timestamp: Date.now(),
+      reason,
+      devicePixelRatio: window.devicePixelRatio,
+      words,
+    });
+    this.layoutIndexes.set(version, this.spatialIndex);
+    console.log(`[WordTracking] Layout version ${version} (${reason})`);
+
     console.log(
       `[WordTracking] Extracted ${words.length} words from ${nodeCount} text nodes (found ${totalWordsFound} total)`
     );
@@ -140,27 +342,71 @@ class WordTrackingService {
   }
 
   /**
-   * Find which word is at the given gaze coordinates
+   * Configure how gaze points are mapped onto words
+   */
+  setMappingOptions(options: Partial<WordMappingOptions>): void {
+    this.mappingOptions = { ...this.mappingOptions, ...options };
+  }
+
+  getMappingOptions(): WordMappingOptions {
+    return { ...this.mappingOptions };
+  }
+
+  /**
+   * Map gaze coordinates to the words they may belong to, most likely first.
+   * Pass a layout version to map against an earlier layout instead of the current one.
    */
-  findWordAtGazePosition(gazeX: number, gazeY: number): WordBounds | null {
-    if (this.wordBoundsMap.size === 0) {
+  mapGazeToWords(
+    gazeX: number,
+    gazeY: number,
+    layoutVersion?: number
+  ): WordCandidate<WordBounds>[] {
+    const layoutIndex = this.getLayoutIndex(layoutVersion);
+    if (!layoutIndex || layoutIndex.size === 0) {
       console.warn(
         "[WordTracking] No word bounds available. Did extraction run?"
       );
-      return null;
+      return [];
     }
 
-    for (const [_, wordBounds] of this.wordBoundsMap) {
-      if (
-        gazeX >= wordBounds.x &&
-        gazeX <= wordBounds.x + wordBounds.width &&
-        gazeY >= wordBounds.y &&
-        gazeY <= wordBounds.y + wordBounds.height
-      ) {
-        return wordBounds;
-      }
-    }
-    return null;
+    // Only words near the gaze point can match
+    const { strategy, padding, radius } = this.mappingOptions;
+    const reach = (strategy === "strict" ? 0 : radius) + padding;
+    const nearby = layoutIndex.query(gazeX, gazeY, reach);
+
+    return mapPointToWords(nearby, gazeX, gazeY, this.mappingOptions);
+  }
+
+  /**
+   * Find which word is at the given gaze coordinates (the most likely one)
+   */
+  findWordAtGazePosition(
+    gazeX: number,
+    gazeY: number,
+    layoutVersion?: number
+  ): WordBounds | null {
+    const [best] = this.mapGazeToWords(gazeX, gazeY, layoutVersion);
+    return best ? best.word : null;
+  }
+
+  /**
+   * Map a gaze sample with the configured strategy and record it.
+   * Probabilistic mapping spreads the sample over the candidate words;
+   * the reading sequence follows the most likely word.
+   * Returns the most likely word, for highlighting.
+   */
+  trackGaze(gazeX: number, gazeY: number, timestamp: number): WordBounds | null {
+    this.closeDwell(timestamp);
+    const candidates = this.mapGazeToWords(gazeX, gazeY);
+    this.recordAois(candidates[0]?.word ?? null, timestamp);
+    if (candidates.length === 0) return null;
+
+    candidates.forEach((candidate) =>
+      this.addGazeWeight(candidate.word, candidate.weight, timestamp)
+    );
+    this.recordVisit(candidates[0].word, timestamp);
+    this.openDwell = { candidates, timestamp };
+    return candidates[0].word;
   }
 
   /**
@@ -170,6 +416,64 @@ class WordTrackingService {
     wordBounds: WordBounds,
     timestamp: number
   ): void {
+    this.closeDwell(timestamp);
+    this.recordAois(wordBounds, timestamp);
+    this.addGazeWeight(wordBounds, 1, timestamp);
+    this.recordVisit(wordBounds, timestamp);
+    this.openDwell = { candidates: [{ word: wordBounds, distance: 0, weight: 1 }], timestamp };
+  }
+
+  /**
+   * Record a sample that maps to no word (lost, uncalibrated or flagged);
+   * it ends the dwell interval of the previous sample
+   */
+  trackUnmappedSample(timestamp: number): void {
+    this.closeDwell(timestamp);
+    this.recordAois(null, timestamp);
+  }
+
+  /**
+   * Set the sample interval above which no dwell time is attributed
+   */
+  setDwellGapThreshold(threshold: number): void {
+    this.dwellGapThreshold = threshold;
+    AOI_LEVELS.forEach((level) => this.aoiTrackers[level].setGapThreshold(threshold));
+  }
+
+  getDwellGapThreshold(): number {
+    return this.dwellGapThreshold;
+  }
+
+  /**
+   * Attribute the interval from the previous mapped sample up to `timestamp`
+   * to that sample's words, split by their weights
+   */
+  private closeDwell(timestamp: number): void {
+    if (!this.openDwell) return;
+    const interval = timestamp - this.openDwell.timestamp;
+
+    if (interval > 0 && interval <= this.dwellGapThreshold) {
+      for (const { word, weight } of this.openDwell.candidates) {
+        const reading = this.wordReadings.get(`${word.word}_${word.index}`);
+        if (reading) {
+          reading.gazeTotalTime += interval * weight;
+        }
+      }
+    }
+    this.openDwell = null;
+  }
+
+  /**
+   * Feed a sample to the AOI trackers of every level; probabilistic samples
+   * count towards the AOIs of their most likely word only
+   */
+  private recordAois(word: WordBounds | null, timestamp: number): void {
+    AOI_LEVELS.forEach((level) =>
+      this.aoiTrackers[level].record(word ? aoiIndexOf(word, level) : null, timestamp)
+    );
+  }
+
+  private addGazeWeight(wordBounds: WordBounds, weight: number, timestamp: number): void {
     const wordKey = `${wordBounds.word}_${wordBounds.index}`;
 
     if (!this.wordReadings.has(wordKey)) {
@@ -181,12 +485,18 @@ class WordTrackingService {
         firstGazeTime: timestamp,
         lastGazeTime: timestamp,
         frequency: 1,
+        fixationCount: 0,
+        fixationDuration: 0,
       });
     }
 
     const reading = this.wordReadings.get(wordKey)!;
-    reading.gazePointCount++;
+    reading.gazePointCount += weight;
     reading.lastGazeTime = timestamp;
+  }
+
+  private recordVisit(wordBounds: WordBounds, timestamp: number): void {
+    const reading = this.wordReadings.get(`${wordBounds.word}_${wordBounds.index}`)!;
 
     // Track frequency: if we haven't gazed at this word recently, increment frequency
     if (
@@ -207,21 +517,157 @@ class WordTrackingService {
   }
 
   /**
-   * Calculate time spent on each word (requires gaze data with timestamps)
+   * Attribute detected fixations to words and compute the per-word reading
+   * measures from them (replaces earlier fixation metrics)
    */
-  calculateTimeMetrics(gazeData: Array<{ timestamp: number }>): void {
-    if (gazeData.length < 2) return;
-
+  applyFixations(fixations: WordFixation[]): void {
     for (const [_, reading] of this.wordReadings) {
-      if (gazeData.length > 0) {
-        // Estimate time: (point count / total points) * total session duration
-        const totalDuration =
-          gazeData[gazeData.length - 1].timestamp - gazeData[0].timestamp;
-        const estimatedTime =
-          (reading.gazePointCount / gazeData.length) * totalDuration;
-        reading.gazeTotalTime = Math.round(estimatedTime);
+      reading.fixationCount = 0;
+      reading.fixationDuration = 0;
+    }
+
+    for (const fixation of fixations) {
+      if (fixation.wordIndex === null) continue;
+      const word = this.wordIndexToWord.get(fixation.wordIndex);
+      if (word === undefined) continue;
+
+      const wordKey = `${word}_${fixation.wordIndex}`;
+      if (!this.wordReadings.has(wordKey)) {
+        // Fixation centroid on a word no single sample landed on
+        this.wordReadings.set(wordKey, {
+          word,
+          wordIndex: fixation.wordIndex,
+          gazeTotalTime: 0,
+          gazePointCount: 0,
+          firstGazeTime: fixation.start,
+          lastGazeTime: fixation.end,
+          frequency: 1,
+          fixationCount: 0,
+          fixationDuration: 0,
+        });
       }
+
+      const reading = this.wordReadings.get(wordKey)!;
+      reading.fixationCount++;
+      reading.fixationDuration += fixation.duration;
+    }
+
+    this.readingMeasures = computeReadingMeasures(fixations, this.wordIndexToWord.size).map(
+      (measures) => ({
+        word: this.wordIndexToWord.get(measures.wordIndex) ?? "",
+        ...measures,
+      })
+    );
+  }
+
+  /**
+   * Get the reading measures of every word in text order, as of the last applyFixations
+   */
+  getReadingMeasures(): WordReadingMeasures[] {
+    return this.readingMeasures.map((measures) => ({ ...measures }));
+  }
+
+  /**
+   * Word, line, sentence and paragraph AOIs of the current layout with their
+   * dwell time, visits and first entry
+   */
+  getAoiData(): AoiData {
+    return aoiRecord((level) =>
+      this.aois[level].map((aoi) => ({
+        ...aoi,
+        ...this.aoiTrackers[level].getMetrics(aoi.index),
+      }))
+    );
+  }
+
+  /**
+   * Change the tokenization locale or granularity; takes effect at the next extraction.
+   * Word indexes of the old and new tokens don't match, so a change also resets the reading data.
+   */
+  setTokenizerOptions(options: Partial<TokenizerOptions>): void {
+    const next = { ...this.tokenizerOptions, ...options };
+    if (
+      next.locale === this.tokenizerOptions.locale &&
+      next.granularity === this.tokenizerOptions.granularity
+    ) {
+      return;
+    }
+    this.tokenizerOptions = next;
+    this.resetReadingData();
+  }
+
+  /**
+   * Tokenizer settings, and whether Intl.Segmenter is available (otherwise words
+   * are split at whitespace and the locale is ignored)
+   */
+  getTokenizerOptions(): TokenizerOptions & { segmenter: boolean } {
+    return { ...this.tokenizerOptions, segmenter: isSegmenterSupported() };
+  }
+
+  /**
+   * Use a lexical frequency table for the `frequency` feature (null removes it)
+   */
+  setFrequencyTable(table: FrequencyTable | null): void {
+    this.frequencyTable = table;
+  }
+
+  getFrequencyTableName(): string | null {
+    return this.frequencyTable?.name ?? null;
+  }
+
+  /**
+   * Load a CSV/TSV frequency list (word, value), by default from VITE_WORD_FREQUENCY_URL.
+   * Returns false when no URL is configured.
+   */
+  async loadFrequencyTable(url = FREQUENCY_TABLE_URL): Promise<boolean> {
+    if (!url) return false;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Frequency table request failed: ${response.status} ${response.statusText}`);
+    }
+    const name = url.split("/").pop() || url;
+    this.frequencyTable = parseFrequencyTable(name, await response.text());
+    console.log(`[WordTracking] Loaded frequency table ${name}`);
+    return true;
+  }
+
+  /**
+   * Normalized form, punctuation, length, position in line/sentence and
+   * frequency of every word of the current layout, in text order
+   */
+  getLexicalFeatures(): LexicalFeatures[] {
+    return computeLexicalFeatures(this.getWordBounds(), this.frequencyTable);
+  }
+
+  /**
+   * Get the extracted word bounding boxes in text order
+   */
+  getWordBounds(): WordBounds[] {
+    return Array.from(this.wordBoundsMap.values()).sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Version number of the layout currently on screen (0 before extraction)
+   */
+  getLayoutVersion(): number {
+    return this.layoutHistory.length;
+  }
+
+  /**
+   * All layouts of the page so far, oldest first
+   */
+  getLayoutHistory(): LayoutVersion[] {
+    return this.layoutHistory.map((layout) => ({ ...layout, words: [...layout.words] }));
+  }
+
+  /**
+   * Spatial index of a layout version, the current layout by default
+   */
+  private getLayoutIndex(layoutVersion?: number): WordSpatialIndex<WordBounds> | null {
+    if (layoutVersion === undefined || layoutVersion === this.getLayoutVersion()) {
+      return this.spatialIndex;
     }
+    return this.layoutIndexes.get(layoutVersion) ?? null;
   }
 
   /**
@@ -258,8 +704,11 @@ class WordTrackingService {
    */
   resetReadingData(): void {
     this.wordReadings.clear();
+    this.openDwell = null;
+    this.readingMeasures = [];
     this.wordReadingSequence = [];
     this.lastGazedWordIndex = -1;
+    AOI_LEVELS.forEach((level) => this.aoiTrackers[level].reset());
   }
 
   /**
@@ -267,6 +716,13 @@ class WordTrackingService {
    */
   reset(): void {
     this.wordBoundsMap.clear();
+    this.spatialIndex = null;
+    this.layoutHistory = [];
+    this.layoutIndexes.clear();
+    this.aois = aoiRecord(() => []);
+    AOI_LEVELS.forEach((level) => this.aoiTrackers[level].reset());
+    this.readingMeasures = [];
+    this.openDwell = null;
     this.wordReadings.clear();
     this.wordReadingSequence = [];
     this.lastGazedWordIndex = -1;
@@ -279,11 +735,18 @@ class WordTrackingService {
   exportWordReadingData(): {
     wordReadings: WordReading[];
     readingSequence: WordReadingEvent[];
+    readingMeasures: WordReadingMeasures[];
+    lexicalFeatures: LexicalFeatures[];
     totalUniqueWords: number;
   } {
     return {
-      wordReadings: this.getWordReadings(),
+      wordReadings: this.getWordReadings().map((reading) => ({
+        ...reading,
+        gazeTotalTime: Math.round(reading.gazeTotalTime),
+      })),
       readingSequence: this.getReadingSequence(),
+      readingMeasures: this.getReadingMeasures(),
+      lexicalFeatures: this.getLexicalFeatures(),
       totalUniqueWords: this.wordBoundsMap.size,
     };
   }
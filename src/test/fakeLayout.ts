@@ -0,0 +1,28 @@
+/**
+ * Text layout for jsdom tests, which have no layout engine: every text node is
+ * laid out on one line, `charWidth` px per character, starting at `top`
+ */
+
+export interface FakeLayout {
+  charWidth: number;
+  top: number;
+  lineHeight: number;
+}
+
+const originalGetBoundingClientRect = Range.prototype.getBoundingClientRect;
+
+export const fakeLayout: FakeLayout = { charWidth: 10, top: 100, lineHeight: 20 };
+
+export function installFakeLayout(): void {
+  Range.prototype.getBoundingClientRect = function (this: Range) {
+    const { charWidth, top, lineHeight } = fakeLayout;
+    const x = this.startOffset * charWidth;
+    const width = (this.endOffset - this.startOffset) * charWidth;
+    return new DOMRect(x, top, width, lineHeight);
+  };
+}
+
+export function uninstallFakeLayout(): void {
+  Range.prototype.getBoundingClientRect = originalGetBoundingClientRect;
+  Object.assign(fakeLayout, { charWidth: 10, top: 100, lineHeight: 20 });
+}